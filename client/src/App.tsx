@@ -7,6 +7,7 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AuthProvider, useAuth } from "@/lib/auth";
 import { ThemeProvider } from "@/lib/theme";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
 import { AppSidebar } from "@/components/app-sidebar";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -17,6 +18,7 @@ import CompetitionsPage from "@/pages/competitions";
 import PracticePage from "@/pages/practice";
 import PaymentsPage from "@/pages/payments";
 import MatchPage from "@/pages/match";
+import MatchReportPage from "@/pages/match-report";
 import AdminPage from "@/pages/admin";
 import SettingsPage from "@/pages/settings";
 import NotFound from "@/pages/not-found";
@@ -45,7 +47,10 @@ function ProtectedRoutes() {
         <div className="flex flex-col flex-1 min-w-0">
           <header className="flex items-center justify-between gap-4 p-3 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-40">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
-            <ThemeToggle />
+            <div className="flex items-center gap-1">
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
           </header>
           <main className="flex-1 overflow-auto">
             <Switch>
@@ -57,6 +62,7 @@ function ProtectedRoutes() {
               <Route path="/practice" component={PracticePage} />
               <Route path="/payments" component={PaymentsPage} />
               <Route path="/match/:id" component={MatchPage} />
+              <Route path="/match/:id/report" component={MatchReportPage} />
               <Route path="/admin" component={AdminPage} />
               <Route path="/settings" component={SettingsPage} />
               <Route component={NotFound} />
@@ -76,6 +82,11 @@ function AppRouter() {
     return <LoadingScreen />;
   }
 
+  // Spectator view is public and rendered without the app chrome
+  if (location.startsWith("/watch/")) {
+    return <Route path="/watch/:id" component={MatchPage} />;
+  }
+
   if (!user) {
     if (location !== "/" && location !== "/auth") {
       setLocation("/");
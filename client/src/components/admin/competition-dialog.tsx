@@ -0,0 +1,395 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+const createCompetitionSchema = z.object({
+  name: z.string().min(3, "Name must be at least 3 characters"),
+  description: z.string().optional(),
+  registrationFee: z.string().regex(/^\d+(\.\d{2})?$/, "Invalid price format"),
+  maxTeams: z.string().regex(/^\d+$/, "Must be a number"),
+  minReadyPlayers: z.string().regex(/^[1-9]\d*$/, "Must be at least 1"),
+  forfeitWinScore: z.string().regex(/^[1-9]\d*$/, "Must be at least 1"),
+  startDate: z.string().min(1, "Required"),
+  endDate: z.string().min(1, "Required"),
+  registrationDeadline: z.string().min(1, "Required"),
+  format: z.enum(["round_robin", "double_round_robin", "knockout"]),
+  answerMode: z.enum(["individual", "team"]),
+  winPoints: z.string().regex(/^\d+$/, "Must be a number"),
+  drawPoints: z.string().regex(/^\d+$/, "Must be a number"),
+  lossPoints: z.string().regex(/^\d+$/, "Must be a number"),
+  easyPoints: z.string().regex(/^\d+$/, "Must be a number"),
+  mediumPoints: z.string().regex(/^\d+$/, "Must be a number"),
+  hardPoints: z.string().regex(/^\d+$/, "Must be a number"),
+  speedBonusPoints: z.string().regex(/^\d+$/, "Must be a number"),
+  wrongAnswerPenalty: z.string().regex(/^\d+$/, "Must be a number"),
+  captainMultiplier: z.string().regex(/^\d+(\.\d+)?$/, "Must be a number"),
+});
+
+type CreateCompetitionFormData = z.infer<typeof createCompetitionSchema>;
+
+export type CompetitionFormat = CreateCompetitionFormData["format"];
+
+type AnswerMode = CreateCompetitionFormData["answerMode"];
+
+export const FORMAT_OPTIONS: { value: CompetitionFormat; label: string }[] = [
+  { value: "round_robin", label: "Round Robin" },
+  { value: "double_round_robin", label: "Home and Away" },
+  { value: "knockout", label: "Knockout" },
+];
+
+const ANSWER_MODE_OPTIONS: { value: AnswerMode; label: string }[] = [
+  { value: "individual", label: "Individual answers" },
+  { value: "team", label: "One answer per team (captain locks in)" },
+];
+
+const SCORING_FIELDS: { name: keyof CreateCompetitionFormData; label: string; testId: string }[] = [
+  { name: "easyPoints", label: "Easy Question", testId: "input-easy-points" },
+  { name: "mediumPoints", label: "Medium Question", testId: "input-medium-points" },
+  { name: "hardPoints", label: "Hard Question", testId: "input-hard-points" },
+  { name: "speedBonusPoints", label: "Max Speed Bonus", testId: "input-speed-bonus" },
+  { name: "wrongAnswerPenalty", label: "Wrong Answer Penalty", testId: "input-wrong-penalty" },
+  { name: "captainMultiplier", label: "Captain Multiplier", testId: "input-captain-multiplier" },
+];
+
+export function CreateCompetitionDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  
+  const form = useForm<CreateCompetitionFormData>({
+    resolver: zodResolver(createCompetitionSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      registrationFee: "10.00",
+      maxTeams: "20",
+      minReadyPlayers: "1",
+      forfeitWinScore: "1",
+      startDate: "",
+      endDate: "",
+      registrationDeadline: "",
+      format: "round_robin",
+      answerMode: "individual",
+      winPoints: "3",
+      drawPoints: "1",
+      lossPoints: "0",
+      easyPoints: "1",
+      mediumPoints: "1",
+      hardPoints: "1",
+      speedBonusPoints: "0",
+      wrongAnswerPenalty: "0",
+      captainMultiplier: "1",
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateCompetitionFormData) => {
+      const {
+        easyPoints, mediumPoints, hardPoints, speedBonusPoints, wrongAnswerPenalty, captainMultiplier,
+        ...competition
+      } = data;
+      const res = await apiRequest("POST", "/api/admin/competitions", {
+        ...competition,
+        registrationFee: parseFloat(data.registrationFee),
+        maxTeams: parseInt(data.maxTeams),
+        minReadyPlayers: parseInt(data.minReadyPlayers),
+        forfeitWinScore: parseInt(data.forfeitWinScore),
+        startDate: new Date(data.startDate).toISOString(),
+        endDate: new Date(data.endDate).toISOString(),
+        registrationDeadline: new Date(data.registrationDeadline).toISOString(),
+        winPoints: parseInt(data.winPoints),
+        drawPoints: parseInt(data.drawPoints),
+        lossPoints: parseInt(data.lossPoints),
+        scoringRules: {
+          difficultyPoints: {
+            easy: parseInt(easyPoints),
+            medium: parseInt(mediumPoints),
+            hard: parseInt(hardPoints),
+          },
+          speedBonus: { maxPoints: parseInt(speedBonusPoints), fullBonusSeconds: 5, zeroBonusSeconds: 20 },
+          wrongAnswerPenalty: parseInt(wrongAnswerPenalty),
+          captainMultiplier: parseFloat(captainMultiplier),
+        },
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Competition created!", description: "Teams can now register." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin"] });
+      form.reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create competition", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create Competition</DialogTitle>
+          <DialogDescription>
+            Set up a new quiz league competition for teams to join.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Competition Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Quiz League Season 1" data-testid="input-competition-name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Competition details..." data-testid="input-competition-description" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="registrationFee"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Registration Fee ($)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="10.00" data-testid="input-registration-fee" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxTeams"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Teams</FormLabel>
+                    <FormControl>
+                      <Input placeholder="20" data-testid="input-max-teams" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="minReadyPlayers"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ready Players per Side</FormLabel>
+                    <FormControl>
+                      <Input placeholder="1" data-testid="input-min-ready-players" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" data-testid="input-start-date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Date</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" data-testid="input-end-date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="registrationDeadline"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Registration Deadline</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" data-testid="input-registration-deadline" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="format"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Format</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-competition-format">
+                        <SelectValue placeholder="Select format" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {FORMAT_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="answerMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Answer Mode</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-answer-mode">
+                        <SelectValue placeholder="Select answer mode" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ANSWER_MODE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-4 gap-4">
+              <FormField
+                control={form.control}
+                name="winPoints"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Points for Win</FormLabel>
+                    <FormControl>
+                      <Input placeholder="3" data-testid="input-win-points" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="drawPoints"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Points for Draw</FormLabel>
+                    <FormControl>
+                      <Input placeholder="1" data-testid="input-draw-points" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="lossPoints"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Points for Loss</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0" data-testid="input-loss-points" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="forfeitWinScore"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Forfeit Win Score</FormLabel>
+                    <FormControl>
+                      <Input placeholder="1" data-testid="input-forfeit-win-score" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Answer Scoring</p>
+              <div className="grid grid-cols-3 gap-4">
+                {SCORING_FIELDS.map((scoringField) => (
+                  <FormField
+                    key={scoringField.name}
+                    control={form.control}
+                    name={scoringField.name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{scoringField.label}</FormLabel>
+                        <FormControl>
+                          <Input data-testid={scoringField.testId} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-create-competition-submit">
+                {createMutation.isPending ? "Creating..." : "Create Competition"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
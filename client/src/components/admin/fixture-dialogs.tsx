@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Competition, Match } from "@shared/schema";
+import { type CompetitionFormat, FORMAT_OPTIONS } from "@/components/admin/competition-dialog";
+import { type AdminMatch, type FixtureChange, AUDIT_LABELS } from "@/components/admin/shared";
+
+export function GenerateFixturesDialog({
+  competition,
+  open,
+  onOpenChange,
+}: {
+  competition: Competition | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [format, setFormat] = useState<CompetitionFormat>("round_robin");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (competition) setFormat(competition.format);
+  }, [competition]);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      if (!competition) throw new Error("Missing competition");
+      const res = await apiRequest("POST", `/api/admin/competitions/${competition.id}/fixtures`, { format });
+      return res.json();
+    },
+    onSuccess: (matches: Match[]) => {
+      toast({ title: "Fixtures generated!", description: `${matches.length} matches scheduled.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to generate fixtures", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Generate Fixtures</DialogTitle>
+          <DialogDescription>
+            Create matches for every team registered in {competition?.name}. Rounds are spread
+            between the competition start and end dates.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Select value={format} onValueChange={(v) => setFormat(v as CompetitionFormat)}>
+            <SelectTrigger data-testid="select-fixture-format">
+              <SelectValue placeholder="Select format" />
+            </SelectTrigger>
+            <SelectContent>
+              {FORMAT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending}
+              data-testid="button-generate-fixtures-submit"
+            >
+              {generateMutation.isPending ? "Generating..." : "Generate Fixtures"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Formats a date for a datetime-local input, which expects local time without a zone
+function toLocalInputValue(date: Date | string) {
+  const d = new Date(date);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export function FixtureChangeDialog({
+  match,
+  onOpenChange,
+}: {
+  match: AdminMatch | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [winnerTeamId, setWinnerTeamId] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!match) return;
+    setScheduledAt(toLocalInputValue(match.scheduledAt));
+    setWinnerTeamId("");
+    setReason("");
+  }, [match]);
+
+  const changeMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: FixtureChange; body: Record<string, unknown> }) => {
+      if (!match) throw new Error("Missing match");
+      const res = await apiRequest("POST", `/api/admin/matches/${match.id}/${action}`, {
+        ...body,
+        reason: reason.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (_result, { action }) => {
+      toast({ title: AUDIT_LABELS[action], description: "Both teams have been notified." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fixture change failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const change = (action: FixtureChange, body: Record<string, unknown> = {}) => changeMutation.mutate({ action, body });
+
+  return (
+    <Dialog open={!!match} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change Fixture</DialogTitle>
+          <DialogDescription>
+            {match?.homeTeam.name} vs {match?.awayTeam.name}. Members of both teams are notified of any change.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <Input
+            placeholder="Reason (optional, shown to the teams)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="input-fixture-reason"
+          />
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Reschedule</p>
+            <div className="flex items-center gap-2">
+              <Input
+                type="datetime-local"
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+                data-testid="input-fixture-scheduled-at"
+              />
+              <Button
+                variant="outline"
+                onClick={() => change("reschedule", { scheduledAt: new Date(scheduledAt).toISOString() })}
+                disabled={!scheduledAt || changeMutation.isPending}
+                data-testid="button-fixture-reschedule"
+              >
+                Reschedule
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Award Walkover</p>
+            <div className="flex items-center gap-2">
+              <Select value={winnerTeamId} onValueChange={setWinnerTeamId}>
+                <SelectTrigger data-testid="select-fixture-winner">
+                  <SelectValue placeholder="Winning team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {match && [match.homeTeam, match.awayTeam].map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => change("walkover", { winnerTeamId })}
+                disabled={!winnerTeamId || changeMutation.isPending}
+                data-testid="button-fixture-walkover"
+              >
+                Award
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {match?.status === "waiting" && (
+              <Button
+                variant="outline"
+                onClick={() => change("postpone")}
+                disabled={changeMutation.isPending}
+                data-testid="button-fixture-postpone"
+              >
+                Postpone
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              onClick={() => change("cancel")}
+              disabled={changeMutation.isPending}
+              data-testid="button-fixture-cancel"
+            >
+              Cancel Match
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
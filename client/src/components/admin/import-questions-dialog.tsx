@@ -0,0 +1,165 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { QuestionFileFormat, QuestionImportResult } from "@shared/schema";
+import { QUESTION_TYPE_LABELS } from "@/components/admin/question-dialog";
+
+export function ImportQuestionsDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<QuestionFileFormat>("csv");
+  const [content, setContent] = useState("");
+  const [result, setResult] = useState<QuestionImportResult | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName("");
+    setContent("");
+    setResult(null);
+  }, [open]);
+
+  const selectFile = async (file: File | undefined) => {
+    setResult(null);
+    if (!file) return;
+    setFileName(file.name);
+    setFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+    setContent(await file.text());
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const res = await apiRequest("POST", "/api/admin/questions/import", { format, content, dryRun });
+      return res.json() as Promise<QuestionImportResult>;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.dryRun) return;
+      toast({ title: "Questions imported", description: `${data.imported} question(s) added to the bank.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/questions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with the same columns as an export. Questions already in the bank are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".csv,.json"
+            onChange={(e) => selectFile(e.target.files?.[0])}
+            data-testid="input-import-file"
+          />
+          {fileName && (
+            <p className="text-sm text-muted-foreground">
+              {fileName} ({format.toUpperCase()})
+            </p>
+          )}
+
+          {result && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{result.total} row(s)</Badge>
+                <Badge>{result.imported} to import</Badge>
+                <Badge variant="secondary">{result.duplicates.length} duplicate(s)</Badge>
+                <Badge variant={result.errors.length > 0 ? "destructive" : "outline"}>
+                  {result.errors.length} error(s)
+                </Badge>
+              </div>
+
+              {result.errors.length > 0 && (
+                <div className="max-h-40 overflow-y-auto rounded-md border p-3 text-sm" data-testid="import-errors">
+                  {result.errors.map((error) => (
+                    <p key={error.row}>
+                      <span className="font-medium">Row {error.row}:</span> {error.messages.join("; ")}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {result.duplicates.length > 0 && (
+                <div className="max-h-32 overflow-y-auto rounded-md border p-3 text-sm text-muted-foreground">
+                  {result.duplicates.map((duplicate) => (
+                    <p key={duplicate.row}>
+                      Row {duplicate.row}: "{duplicate.questionText}" {duplicate.existing ? "is already in the bank" : "appears earlier in the file"}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {result.preview.length > 0 && (
+                <div className="max-h-64 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Question</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Subject</TableHead>
+                        <TableHead>Mode</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.preview.map((question, i) => (
+                        <TableRow key={i}>
+                          <TableCell className="max-w-xs truncate">{question.questionText}</TableCell>
+                          <TableCell>{QUESTION_TYPE_LABELS[question.type ?? "multiple_choice"]}</TableCell>
+                          <TableCell>{question.subject}</TableCell>
+                          <TableCell>{question.mode}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {result.imported > result.preview.length && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the first {result.preview.length} of {result.imported} questions.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => importMutation.mutate(true)}
+              disabled={!content || importMutation.isPending}
+              data-testid="button-preview-import"
+            >
+              Preview
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(false)}
+              disabled={!result || result.imported === 0 || importMutation.isPending}
+              data-testid="button-confirm-import"
+            >
+              Import {result ? result.imported : ""} Question(s)
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Play, Pause, SkipForward, Square, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { MatchControl, MatchAuditEntry, ScoreAdjustment } from "@shared/schema";
+import { type AdminMatch, AUDIT_LABELS } from "@/components/admin/shared";
+
+interface MatchControlData {
+  questions: { id: string; questionText: string; voided: boolean }[];
+  adjustments: ScoreAdjustment[];
+  audit: (MatchAuditEntry & { admin: { id: string; username: string } | null })[];
+}
+
+export function MatchControlDialog({
+  match,
+  onOpenChange,
+}: {
+  match: AdminMatch | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [extendSeconds, setExtendSeconds] = useState("15");
+  const [voidQuestionId, setVoidQuestionId] = useState("");
+  const [adjustTeamId, setAdjustTeamId] = useState("");
+  const [adjustPoints, setAdjustPoints] = useState("");
+  const [adjustReason, setAdjustReason] = useState("");
+  const { toast } = useToast();
+  const isLive = match?.status === "live";
+
+  const { data } = useQuery<MatchControlData>({
+    queryKey: ["/api/admin/matches", match?.id, "control"],
+    enabled: !!match,
+  });
+
+  const controlMutation = useMutation({
+    mutationFn: async (command: MatchControl) => {
+      if (!match) throw new Error("Missing match");
+      const res = await apiRequest("POST", `/api/admin/matches/${match.id}/control`, command);
+      return res.json();
+    },
+    onSuccess: (_result, command) => {
+      toast({ title: AUDIT_LABELS[command.action] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/matches", match?.id, "control"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin"] });
+      if (command.action === "adjust_score") {
+        setAdjustPoints("");
+        setAdjustReason("");
+      }
+      if (command.action === "end") onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Match control failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const send = (command: MatchControl) => controlMutation.mutate(command);
+  const teamName = (teamId: string) =>
+    teamId === match?.homeTeamId ? match.homeTeam.name : teamId === match?.awayTeamId ? match.awayTeam.name : teamId;
+
+  return (
+    <Dialog open={!!match} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Match Control</DialogTitle>
+          <DialogDescription>
+            {match?.homeTeam.name} vs {match?.awayTeam.name}. Every action is recorded in the audit trail.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          {isLive && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => send({ action: "pause" })} disabled={controlMutation.isPending} data-testid="button-control-pause">
+                  <Pause className="h-4 w-4 mr-2" />
+                  Pause
+                </Button>
+                <Button variant="outline" onClick={() => send({ action: "resume" })} disabled={controlMutation.isPending} data-testid="button-control-resume">
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume
+                </Button>
+                <Button variant="outline" onClick={() => send({ action: "skip" })} disabled={controlMutation.isPending} data-testid="button-control-skip">
+                  <SkipForward className="h-4 w-4 mr-2" />
+                  Skip Question
+                </Button>
+                <Button variant="destructive" onClick={() => send({ action: "end" })} disabled={controlMutation.isPending} data-testid="button-control-end">
+                  <Square className="h-4 w-4 mr-2" />
+                  End Match
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  className="w-24"
+                  value={extendSeconds}
+                  onChange={(e) => setExtendSeconds(e.target.value)}
+                  data-testid="input-control-extend"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => send({ action: "extend", seconds: parseInt(extendSeconds) || 0 })}
+                  disabled={controlMutation.isPending}
+                  data-testid="button-control-extend"
+                >
+                  <Timer className="h-4 w-4 mr-2" />
+                  Extend (seconds)
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Void a Question</p>
+            <div className="flex items-center gap-2">
+              <Select value={voidQuestionId} onValueChange={setVoidQuestionId}>
+                <SelectTrigger data-testid="select-control-void">
+                  <SelectValue placeholder="Select question" />
+                </SelectTrigger>
+                <SelectContent>
+                  {data?.questions.map((question, index) => (
+                    <SelectItem key={question.id} value={question.id} disabled={question.voided}>
+                      Q{index + 1}: {question.questionText}{question.voided ? " (void)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => send({ action: "void", questionId: voidQuestionId })}
+                disabled={!voidQuestionId || controlMutation.isPending}
+                data-testid="button-control-void"
+              >
+                Void
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Award or Deduct Points</p>
+            <div className="grid grid-cols-3 gap-2">
+              <Select value={adjustTeamId} onValueChange={setAdjustTeamId}>
+                <SelectTrigger data-testid="select-control-team">
+                  <SelectValue placeholder="Team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {match && [match.homeTeam, match.awayTeam].map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Points, e.g. 2 or -1"
+                value={adjustPoints}
+                onChange={(e) => setAdjustPoints(e.target.value)}
+                data-testid="input-control-points"
+              />
+              <Input
+                placeholder="Reason"
+                value={adjustReason}
+                onChange={(e) => setAdjustReason(e.target.value)}
+                data-testid="input-control-reason"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => send({
+                action: "adjust_score",
+                teamId: adjustTeamId,
+                points: parseInt(adjustPoints) || 0,
+                reason: adjustReason,
+              })}
+              disabled={!adjustTeamId || controlMutation.isPending}
+              data-testid="button-control-adjust"
+            >
+              Apply Adjustment
+            </Button>
+            {data?.adjustments.map((adjustment) => (
+              <p key={adjustment.id} className="text-sm text-muted-foreground">
+                {teamName(adjustment.teamId)}: {adjustment.points > 0 ? `+${adjustment.points}` : adjustment.points} ({adjustment.reason})
+              </p>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Audit Trail</p>
+            {data?.audit.length ? (
+              <div className="space-y-1">
+                {data.audit.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between gap-4 text-sm" data-testid={`audit-entry-${entry.id}`}>
+                    <span>
+                      {AUDIT_LABELS[entry.action as keyof typeof AUDIT_LABELS] ?? entry.action}
+                      {Object.keys(entry.details).length > 0 && (
+                        <span className="text-muted-foreground"> {JSON.stringify(entry.details)}</span>
+                      )}
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {entry.admin?.username ?? "Unknown"} · {new Date(entry.createdAt).toLocaleTimeString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No admin actions yet</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
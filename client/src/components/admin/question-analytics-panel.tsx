@@ -0,0 +1,201 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { BarChart3, CheckCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest } from "@/lib/queryClient";
+import type { Competition, AnswerOptionStats, QuestionAnalyticsReport, QuestionQualityFlag } from "@shared/schema";
+import { QUESTION_TYPE_LABELS } from "@/components/admin/question-dialog";
+import { ANY } from "@/components/admin/shared";
+
+const QUALITY_FLAGS: Record<QuestionQualityFlag, { label: string; description: string }> = {
+  difficulty_mismatch: {
+    label: "Difficulty mismatch",
+    description: "Players find it easier or harder than its difficulty tag says",
+  },
+  negative_discrimination: {
+    label: "Negative discrimination",
+    description: "Weaker players get it right more often than stronger ones; check the answer key",
+  },
+  low_discrimination: {
+    label: "Low discrimination",
+    description: "Barely separates stronger players from weaker ones",
+  },
+  popular_distractor: {
+    label: "Popular distractor",
+    description: "A wrong option is picked more often than the correct one",
+  },
+};
+
+function AnswerOptionBars({ options }: { options: AnswerOptionStats[] }) {
+  if (options.length === 0) return <p className="text-sm text-muted-foreground">No answers recorded</p>;
+  return (
+    <div className="space-y-2">
+      {options.map((option, index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <span className={`flex items-center gap-1 ${option.isCorrect ? "font-medium" : ""}`}>
+              {option.isCorrect && <CheckCircle className="h-3 w-3 text-green-600" />}
+              {option.label}
+            </span>
+            <span className="font-mono text-muted-foreground">{option.count} ({option.percentage}%)</span>
+          </div>
+          <Progress value={option.percentage} className="h-2" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Question quality statistics from completed matches, so admins can retag
+// difficulty and fix broken or misleading questions
+export function QuestionAnalyticsPanel({ competitions }: { competitions: Competition[] }) {
+  const [competitionId, setCompetitionId] = useState(ANY);
+  const [subject, setSubject] = useState(ANY);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<QuestionAnalyticsReport>({
+    queryKey: ["/api/admin/analytics/questions", competitionId, subject],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (competitionId !== ANY) params.set("competitionId", competitionId);
+      if (subject !== ANY) params.set("subject", subject);
+      const res = await apiRequest("GET", `/api/admin/analytics/questions?${params}`);
+      return res.json();
+    },
+  });
+
+  const rows = (data?.questions ?? []).filter(q => !flaggedOnly || q.flags.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Question Quality</CardTitle>
+        <CardDescription>
+          How questions performed in completed matches. Questions are judged once they have at least{" "}
+          {data?.minAnswers ?? 10} answers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={competitionId} onValueChange={setCompetitionId}>
+            <SelectTrigger className="w-48" data-testid="select-analytics-competition">
+              <SelectValue placeholder="Competition" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All competitions</SelectItem>
+              {competitions.map((comp) => (
+                <SelectItem key={comp.id} value={comp.id}>{comp.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={subject} onValueChange={setSubject}>
+            <SelectTrigger className="w-40" data-testid="select-analytics-subject">
+              <SelectValue placeholder="Subject" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All subjects</SelectItem>
+              {data?.subjects.map((s) => (
+                <SelectItem key={s} value={s}>{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={flaggedOnly}
+              onCheckedChange={(checked) => setFlaggedOnly(checked === true)}
+              data-testid="checkbox-flagged-only"
+            />
+            Flagged only
+          </label>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <BarChart3 className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>{flaggedOnly ? "No flagged questions" : "No answers from completed matches yet"}</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Question</TableHead>
+                <TableHead>Tagged</TableHead>
+                <TableHead>Observed</TableHead>
+                <TableHead className="text-right">Answers</TableHead>
+                <TableHead className="text-right">Correct</TableHead>
+                <TableHead className="text-right">Avg Time</TableHead>
+                <TableHead className="text-right">Discrimination</TableHead>
+                <TableHead>Flags</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((q) => (
+                <Fragment key={`${q.questionId}:${q.revision}`}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpanded(expanded === `${q.questionId}:${q.revision}` ? null : `${q.questionId}:${q.revision}`)}
+                    data-testid={`analytics-row-${q.questionId}-${q.revision}`}
+                  >
+                    <TableCell className="max-w-xs">
+                      <p className="truncate">{q.questionText}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {q.subject} · {QUESTION_TYPE_LABELS[q.type]} · Revision {q.revision}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{q.difficulty}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {q.observedDifficulty ? (
+                        <Badge variant="secondary" className="capitalize">{q.observedDifficulty}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{q.answers}</TableCell>
+                    <TableCell className="text-right font-mono">{q.percentCorrect}%</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {q.averageTimeTaken === null ? "-" : `${q.averageTimeTaken}s`}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {q.discrimination === null ? "-" : q.discrimination.toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {q.flags.map((flag) => (
+                          <Badge
+                            key={flag}
+                            variant={flag === "negative_discrimination" ? "destructive" : "outline"}
+                            title={QUALITY_FLAGS[flag].description}
+                          >
+                            {QUALITY_FLAGS[flag].label}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {expanded === `${q.questionId}:${q.revision}` && (
+                    <TableRow>
+                      <TableCell colSpan={8} className="bg-muted/30">
+                        <AnswerOptionBars options={q.options} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,341 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  FileQuestion, Plus, Upload, Pencil, Copy, Archive, ArchiveRestore, Trash2, Download, History,
+} from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Competition, Question, QuestionPage, QuestionSearch, QuestionFileFormat } from "@shared/schema";
+import { formatAnswer, getAnswerKey, getQuestionPayload } from "@shared/question-types";
+import { QUESTION_TYPE_LABELS, QuestionDialog } from "@/components/admin/question-dialog";
+import { ANY } from "@/components/admin/shared";
+import { ImportQuestionsDialog } from "@/components/admin/import-questions-dialog";
+import { QuestionHistoryDialog } from "@/components/admin/question-history-dialog";
+
+const QUESTION_PAGE_SIZE = 20;
+
+interface QuestionBankData extends QuestionPage {
+  subjects: string[];
+}
+
+export function QuestionBank({ competitions }: { competitions: Competition[] }) {
+  const [search, setSearch] = useState("");
+  const [subject, setSubject] = useState(ANY);
+  const [difficulty, setDifficulty] = useState(ANY);
+  const [mode, setMode] = useState(ANY);
+  const [competitionId, setCompetitionId] = useState(ANY);
+  const [status, setStatus] = useState<QuestionSearch["status"]>("active");
+  const [page, setPage] = useState(1);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
+  const [historyQuestion, setHistoryQuestion] = useState<Question | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const { toast } = useToast();
+
+  const filters = { search, subject, difficulty, mode, competitionId, status };
+  // Any filter change goes back to the first page
+  useEffect(() => setPage(1), [search, subject, difficulty, mode, competitionId, status]);
+
+  const filterParams = () => {
+    const params = new URLSearchParams({ status });
+    if (search.trim()) params.set("search", search.trim());
+    if (subject !== ANY) params.set("subject", subject);
+    if (difficulty !== ANY) params.set("difficulty", difficulty);
+    if (mode !== ANY) params.set("mode", mode);
+    if (competitionId !== ANY) params.set("competitionId", competitionId);
+    return params;
+  };
+
+  // Exports use the current filters but ignore pagination
+  const exportUrl = (format: QuestionFileFormat) => {
+    const params = filterParams();
+    params.set("format", format);
+    return `/api/admin/questions/export?${params}`;
+  };
+
+  const { data, isLoading } = useQuery<QuestionBankData>({
+    queryKey: ["/api/admin/questions", filters, page],
+    queryFn: async () => {
+      const params = filterParams();
+      params.set("page", String(page));
+      params.set("pageSize", String(QUESTION_PAGE_SIZE));
+      const res = await apiRequest("GET", `/api/admin/questions?${params}`);
+      return res.json();
+    },
+  });
+
+  const questionMutation = useMutation({
+    mutationFn: async ({ question, action }: { question: Question; action: "duplicate" | "archive" | "restore" | "delete" }) => {
+      const res = action === "delete"
+        ? await apiRequest("DELETE", `/api/admin/questions/${question.id}`)
+        : await apiRequest("POST", `/api/admin/questions/${question.id}/${action}`);
+      return res.json();
+    },
+    onSuccess: (result, { action }) => {
+      const titles = {
+        duplicate: "Question duplicated",
+        archive: "Question archived",
+        restore: "Question restored",
+        delete: result.deleted ? "Question deleted" : "Question archived",
+      };
+      toast({
+        title: titles[action],
+        description: action === "delete" && !result.deleted
+          ? "It has been used in matches, so it was archived to keep their history."
+          : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/questions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Question update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (question: Question | null) => {
+    setEditingQuestion(question);
+    setDialogOpen(true);
+  };
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const competitionName = (id: string | null) =>
+    id ? competitions.find(c => c.id === id)?.name ?? "Unknown" : "Shared";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle>Question Bank</CardTitle>
+          <CardDescription>Manage quiz questions</CardDescription>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" asChild data-testid="button-export-csv">
+            <a href={exportUrl("csv")} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-export-json">
+            <a href={exportUrl("json")} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </a>
+          </Button>
+          <Button variant="outline" onClick={() => setImportOpen(true)} data-testid="button-upload-questions">
+            <Upload className="h-4 w-4 mr-2" />
+            Bulk Upload
+          </Button>
+          <Button onClick={() => openDialog(null)} data-testid="button-add-question">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 md:grid-cols-6">
+          <Input
+            className="md:col-span-2"
+            placeholder="Search questions..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            data-testid="input-question-search"
+          />
+          <Select value={subject} onValueChange={setSubject}>
+            <SelectTrigger data-testid="select-filter-subject">
+              <SelectValue placeholder="Subject" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All subjects</SelectItem>
+              {data?.subjects.map((s) => (
+                <SelectItem key={s} value={s}>{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={difficulty} onValueChange={setDifficulty}>
+            <SelectTrigger data-testid="select-filter-difficulty">
+              <SelectValue placeholder="Difficulty" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All difficulties</SelectItem>
+              <SelectItem value="easy">Easy</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="hard">Hard</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={mode} onValueChange={setMode}>
+            <SelectTrigger data-testid="select-filter-mode">
+              <SelectValue placeholder="Mode" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All modes</SelectItem>
+              <SelectItem value="competition">Competition</SelectItem>
+              <SelectItem value="practice">Practice</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={competitionId} onValueChange={setCompetitionId}>
+            <SelectTrigger data-testid="select-filter-competition">
+              <SelectValue placeholder="Competition" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All competitions</SelectItem>
+              <SelectItem value="shared">Shared pool</SelectItem>
+              {competitions.map((comp) => (
+                <SelectItem key={comp.id} value={comp.id}>{comp.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Tabs value={status} onValueChange={(value) => setStatus(value as QuestionSearch["status"])}>
+          <TabsList>
+            <TabsTrigger value="active" data-testid="tab-questions-active">Active</TabsTrigger>
+            <TabsTrigger value="archived" data-testid="tab-questions-archived">Archived</TabsTrigger>
+            <TabsTrigger value="all" data-testid="tab-questions-all">All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : data && data.questions.length > 0 ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Difficulty</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Competition</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.questions.map((q) => (
+                  <TableRow key={q.id} className={q.archivedAt ? "opacity-60" : ""} data-testid={`row-question-${q.id}`}>
+                    <TableCell className="max-w-md">
+                      <p className="truncate">{q.questionText}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        Answer: {formatAnswer(getQuestionPayload(q), getAnswerKey(q))}
+                      </p>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{QUESTION_TYPE_LABELS[q.type]}</TableCell>
+                    <TableCell>{q.subject}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{q.difficulty}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={q.mode === "competition" ? "default" : "secondary"} className="capitalize">
+                        {q.mode}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{competitionName(q.competitionId)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button size="icon" variant="ghost" onClick={() => openDialog(q)} data-testid={`button-edit-question-${q.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setHistoryQuestion(q)}
+                          data-testid={`button-history-question-${q.id}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => questionMutation.mutate({ question: q, action: "duplicate" })}
+                          disabled={questionMutation.isPending}
+                          data-testid={`button-duplicate-question-${q.id}`}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        {q.archivedAt ? (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => questionMutation.mutate({ question: q, action: "restore" })}
+                            disabled={questionMutation.isPending}
+                            data-testid={`button-restore-question-${q.id}`}
+                          >
+                            <ArchiveRestore className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => questionMutation.mutate({ question: q, action: "archive" })}
+                            disabled={questionMutation.isPending}
+                            data-testid={`button-archive-question-${q.id}`}
+                          >
+                            <Archive className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => questionMutation.mutate({ question: q, action: "delete" })}
+                          disabled={questionMutation.isPending}
+                          data-testid={`button-delete-question-${q.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+              <span data-testid="text-question-count">{data.total} question{data.total === 1 ? "" : "s"}</span>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(p => p - 1)}
+                  disabled={page <= 1}
+                  data-testid="button-questions-prev"
+                >
+                  Previous
+                </Button>
+                <span>Page {page} of {totalPages}</span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(p => p + 1)}
+                  disabled={page >= totalPages}
+                  data-testid="button-questions-next"
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <FileQuestion className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No questions match these filters</p>
+          </div>
+        )}
+      </CardContent>
+
+      <QuestionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        competitions={competitions}
+        question={editingQuestion}
+      />
+      <ImportQuestionsDialog open={importOpen} onOpenChange={setImportOpen} />
+      <QuestionHistoryDialog question={historyQuestion} onOpenChange={(open) => !open && setHistoryQuestion(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,743 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { ImagePlus, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AnswerExplanation } from "@/components/answer-explanation";
+import { QuestionAnswer } from "@/components/question-answer";
+import { RichContent } from "@/components/rich-content";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Competition, Question, QuestionReference, QuestionType, StoredQuestionPayload } from "@shared/schema";
+import { answerKey, getQuestionPayload, questionTypes, toPublicPayload } from "@shared/question-types";
+
+const linesOf = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+// One reference per line, either a bare link or "Label | link"
+function parseReferences(text: string): QuestionReference[] {
+  return linesOf(text).map((line) => {
+    const separator = line.lastIndexOf("|");
+    if (separator === -1) return { url: line };
+    return { label: line.slice(0, separator).trim() || undefined, url: line.slice(separator + 1).trim() };
+  });
+}
+
+const formatReferences = (references: QuestionReference[]) =>
+  references.map(r => r.label ? `${r.label} | ${r.url}` : r.url).join("\n");
+
+// Every type's fields live in one flat form; only the selected type's are checked
+const createQuestionSchema = z.object({
+  questionText: z.string().min(10, "Question must be at least 10 characters")
+    .max(4000, "Question text must be at most 4000 characters"),
+  type: z.enum(questionTypes),
+  optionA: z.string().max(500, "Options must be at most 500 characters"),
+  optionB: z.string().max(500, "Options must be at most 500 characters"),
+  optionC: z.string().max(500, "Options must be at most 500 characters"),
+  optionD: z.string().max(500, "Options must be at most 500 characters"),
+  correctAnswer: z.enum(["A", "B", "C", "D"]),
+  trueFalseAnswer: z.enum(["true", "false"]),
+  // Multi-select options or ordering items (in the correct order), one per line
+  choices: z.string(),
+  correctChoices: z.array(z.number()),
+  numericAnswer: z.string(),
+  tolerance: z.string(),
+  unit: z.string(),
+  acceptedAnswers: z.string(),
+  caseSensitive: z.boolean(),
+  explanation: z.string().max(4000, "Explanations must be at most 4000 characters"),
+  references: z.string(),
+  subject: z.string().min(1, "Required"),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  mode: z.enum(["competition", "practice"]),
+  competitionId: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const required = (path: keyof typeof data, message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  const references = parseReferences(data.references);
+  if (references.length > 5) required("references", "Add at most five references");
+  if (references.some(r => !/^https?:\/\/\S+$/i.test(r.url))) required("references", "Each reference needs an http or https link");
+
+  switch (data.type) {
+    case "multiple_choice":
+      (["optionA", "optionB", "optionC", "optionD"] as const).forEach((option) => {
+        if (!data[option].trim()) required(option, "Required");
+      });
+      break;
+    case "multi_select":
+    case "ordering": {
+      const count = linesOf(data.choices).length;
+      if (count < 2 || count > 8) required("choices", "Enter between two and eight lines");
+      if (data.type === "multi_select" && !data.correctChoices.some(i => i < count)) {
+        required("correctChoices", "Mark at least one correct option");
+      }
+      break;
+    }
+    case "numeric":
+      if (!/^-?\d+(\.\d+)?$/.test(data.numericAnswer.trim())) required("numericAnswer", "Must be a number");
+      if (data.tolerance.trim() && !/^\d+(\.\d+)?$/.test(data.tolerance.trim())) required("tolerance", "Must be a number");
+      break;
+    case "short_text":
+      if (linesOf(data.acceptedAnswers).length === 0) required("acceptedAnswers", "Add at least one accepted answer");
+      break;
+  }
+});
+
+type CreateQuestionFormData = z.infer<typeof createQuestionSchema>;
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: "Multiple Choice",
+  true_false: "True / False",
+  multi_select: "Multi-Select",
+  numeric: "Numeric",
+  short_text: "Short Text",
+  ordering: "Ordering",
+};
+
+const emptyQuestionForm: CreateQuestionFormData = {
+  questionText: "",
+  type: "multiple_choice",
+  optionA: "",
+  optionB: "",
+  optionC: "",
+  optionD: "",
+  correctAnswer: "A",
+  trueFalseAnswer: "true",
+  choices: "",
+  correctChoices: [],
+  numericAnswer: "",
+  tolerance: "",
+  unit: "",
+  acceptedAnswers: "",
+  caseSensitive: false,
+  explanation: "",
+  references: "",
+  subject: "",
+  difficulty: "medium",
+  mode: "competition",
+  competitionId: "",
+};
+
+function toQuestionForm(question: Question): CreateQuestionFormData {
+  const form: CreateQuestionFormData = {
+    ...emptyQuestionForm,
+    questionText: question.questionText,
+    type: question.type,
+    explanation: question.explanation ?? "",
+    references: formatReferences(question.references),
+    subject: question.subject,
+    difficulty: question.difficulty as CreateQuestionFormData["difficulty"],
+    mode: question.mode,
+    competitionId: question.competitionId ?? "",
+  };
+  const payload = getQuestionPayload(question);
+
+  switch (payload.type) {
+    case "multiple_choice":
+      return {
+        ...form,
+        optionA: question.optionA ?? "",
+        optionB: question.optionB ?? "",
+        optionC: question.optionC ?? "",
+        optionD: question.optionD ?? "",
+        correctAnswer: (question.correctAnswer ?? "A") as CreateQuestionFormData["correctAnswer"],
+      };
+    case "true_false":
+      return { ...form, trueFalseAnswer: payload.answer ? "true" : "false" };
+    case "multi_select":
+      return { ...form, choices: payload.options.join("\n"), correctChoices: payload.answers };
+    case "numeric":
+      return { ...form, numericAnswer: String(payload.answer), tolerance: String(payload.tolerance), unit: payload.unit ?? "" };
+    case "short_text":
+      return { ...form, acceptedAnswers: payload.acceptedAnswers.join("\n"), caseSensitive: payload.caseSensitive };
+    case "ordering":
+      return { ...form, choices: payload.items.join("\n") };
+  }
+}
+
+function toQuestionPayload(data: CreateQuestionFormData): StoredQuestionPayload | null {
+  switch (data.type) {
+    case "multiple_choice":
+      return null;
+    case "true_false":
+      return { type: "true_false", answer: data.trueFalseAnswer === "true" };
+    case "multi_select": {
+      const options = linesOf(data.choices);
+      return { type: "multi_select", options, answers: data.correctChoices.filter(i => i < options.length) };
+    }
+    case "numeric":
+      return {
+        type: "numeric",
+        answer: Number(data.numericAnswer),
+        tolerance: Number(data.tolerance || 0),
+        unit: data.unit.trim() || undefined,
+      };
+    case "short_text":
+      return { type: "short_text", acceptedAnswers: linesOf(data.acceptedAnswers), caseSensitive: data.caseSensitive };
+    case "ordering":
+      return { type: "ordering", items: linesOf(data.choices) };
+  }
+}
+
+// Multiple choice keeps its option columns; other types send a payload instead
+function toQuestionBody(data: CreateQuestionFormData) {
+  const isChoice = data.type === "multiple_choice";
+  return {
+    questionText: data.questionText,
+    type: data.type,
+    optionA: isChoice ? data.optionA : null,
+    optionB: isChoice ? data.optionB : null,
+    optionC: isChoice ? data.optionC : null,
+    optionD: isChoice ? data.optionD : null,
+    correctAnswer: isChoice ? data.correctAnswer : null,
+    payload: toQuestionPayload(data),
+    explanation: data.explanation.trim() || null,
+    references: parseReferences(data.references),
+    subject: data.subject,
+    difficulty: data.difficulty,
+    mode: data.mode,
+    competitionId: data.mode === "competition" && data.competitionId ? data.competitionId : null,
+  };
+}
+
+async function uploadQuestionImage(file: File): Promise<string> {
+  const res = await fetch("/api/admin/uploads/question-image", {
+    method: "POST",
+    headers: { "Content-Type": file.type },
+    body: file,
+    credentials: "include",
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.message ?? res.statusText);
+  return body.url;
+}
+
+// Shows the question as players will see it, with the correct answer marked
+function QuestionPreview({ data }: { data: CreateQuestionFormData }) {
+  const body = toQuestionBody(data);
+  const payload = getQuestionPayload(body);
+
+  return (
+    <div className="space-y-4 rounded-md border p-4" data-testid="question-preview">
+      <p className="text-sm font-medium text-muted-foreground">Preview</p>
+      <RichContent text={data.questionText || "Question text"} className="text-lg font-medium" />
+      <QuestionAnswer
+        payload={toPublicPayload(payload, "preview")}
+        selectedAnswer={null}
+        revealedAnswer={answerKey(payload)}
+        disabled
+        onAnswer={() => {}}
+      />
+      <AnswerExplanation explanation={body.explanation} references={body.references} />
+    </div>
+  );
+}
+
+// Adds a question, or edits one when `question` is given
+export function QuestionDialog({
+  open,
+  onOpenChange,
+  competitions,
+  question,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  competitions: Competition[];
+  question?: Question | null;
+}) {
+  const { toast } = useToast();
+  const isEditing = !!question;
+  
+  const form = useForm<CreateQuestionFormData>({
+    resolver: zodResolver(createQuestionSchema),
+    defaultValues: emptyQuestionForm,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(question ? toQuestionForm(question) : emptyQuestionForm);
+  }, [open, question, form]);
+
+  const questionType = form.watch("type");
+  const [showPreview, setShowPreview] = useState(false);
+
+  const uploadMutation = useMutation({
+    mutationFn: uploadQuestionImage,
+    onSuccess: (url) => {
+      const text = form.getValues("questionText");
+      form.setValue("questionText", `${text}${text && !text.endsWith("\n") ? "\n" : ""}![](${url})`, { shouldDirty: true });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Image upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateQuestionFormData) => {
+      const body = toQuestionBody(data);
+      const res = question
+        ? await apiRequest("PATCH", `/api/admin/questions/${question.id}`, body)
+        : await apiRequest("POST", "/api/admin/questions", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast(isEditing
+        ? { title: "Question updated" }
+        : { title: "Question added!", description: "The question is now in the pool." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/questions"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: isEditing ? "Failed to update question" : "Failed to add question",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Question" : "Add Question"}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? "Changes apply wherever the question is drawn from now on."
+              : "Add a new question to the question pool."}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="questionText"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between gap-2">
+                    <FormLabel>Question</FormLabel>
+                    <Button type="button" variant="ghost" size="sm" asChild>
+                      <label className="cursor-pointer" data-testid="button-insert-image">
+                        <ImagePlus className="h-4 w-4 mr-2" />
+                        {uploadMutation.isPending ? "Uploading..." : "Insert Image"}
+                        <input
+                          type="file"
+                          accept="image/png,image/jpeg,image/gif,image/webp"
+                          className="hidden"
+                          disabled={uploadMutation.isPending}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) uploadMutation.mutate(file);
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                    </Button>
+                  </div>
+                  <FormControl>
+                    <Textarea placeholder="Enter the question..." data-testid="input-question-text" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Use $x^2$ for inline math, $$...$$ for display math and ``` for code blocks
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Question Type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-question-type">
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {questionTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {questionType === "multiple_choice" && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="optionA"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Option A</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Option A" data-testid="input-option-a" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="optionB"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Option B</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Option B" data-testid="input-option-b" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="optionC"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Option C</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Option C" data-testid="input-option-c" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="optionD"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Option D</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Option D" data-testid="input-option-d" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="correctAnswer"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Correct Answer</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-correct-answer">
+                            <SelectValue placeholder="Select" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="A">A</SelectItem>
+                          <SelectItem value="B">B</SelectItem>
+                          <SelectItem value="C">C</SelectItem>
+                          <SelectItem value="D">D</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+            {questionType === "true_false" && (
+              <FormField
+                control={form.control}
+                name="trueFalseAnswer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Correct Answer</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-true-false-answer">
+                          <SelectValue placeholder="Select" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="true">True</SelectItem>
+                        <SelectItem value="false">False</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {(questionType === "multi_select" || questionType === "ordering") && (
+              <FormField
+                control={form.control}
+                name="choices"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{questionType === "ordering" ? "Items, in the correct order" : "Options"}</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="One per line" rows={5} data-testid="input-choices" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {questionType === "multi_select" && (
+              <FormField
+                control={form.control}
+                name="correctChoices"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Correct Options</FormLabel>
+                    <div className="space-y-2">
+                      {linesOf(form.watch("choices")).map((choice, index) => (
+                        <label key={index} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(index)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...field.value, index] : field.value.filter(i => i !== index)
+                            )}
+                            data-testid={`checkbox-correct-choice-${index}`}
+                          />
+                          {choice}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {questionType === "numeric" && (
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="numericAnswer"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Correct Answer</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" placeholder="9.81" data-testid="input-numeric-answer" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tolerance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tolerance (±)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" placeholder="0" data-testid="input-tolerance" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="m/s²" data-testid="input-unit" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            {questionType === "short_text" && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="acceptedAnswers"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Accepted Answers</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="One per line" rows={3} data-testid="input-accepted-answers" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="caseSensitive"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-case-sensitive"
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">Case sensitive</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+            <FormField
+              control={form.control}
+              name="explanation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Explanation (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Why the answer is correct, shown after it is revealed"
+                      rows={3}
+                      data-testid="input-explanation"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="references"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>References (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={"https://example.com/source\nTextbook, chapter 3 | https://example.com/book"}
+                      rows={2}
+                      data-testid="input-references"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>One link per line, optionally as "Label | link"</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="subject"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Subject</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Math, Science..." data-testid="input-subject" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="difficulty"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Difficulty</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-difficulty">
+                          <SelectValue placeholder="Select" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="easy">Easy</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="hard">Hard</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mode</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-mode">
+                          <SelectValue placeholder="Select" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="competition">Competition</SelectItem>
+                        <SelectItem value="practice">Practice</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {form.watch("mode") === "competition" && (
+              <FormField
+                control={form.control}
+                name="competitionId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Competition (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-competition">
+                          <SelectValue placeholder="Select competition" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {competitions.map((comp) => (
+                          <SelectItem key={comp.id} value={comp.id}>
+                            {comp.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {showPreview && <QuestionPreview data={form.watch()} />}
+            <div className="flex gap-2 justify-end">
+              <Button
+                type="button"
+                variant="ghost"
+                className="mr-auto"
+                onClick={() => setShowPreview(!showPreview)}
+                data-testid="button-toggle-preview"
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                {showPreview ? "Hide Preview" : "Preview"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-create-question-submit">
+                {createMutation.isPending ? "Saving..." : isEditing ? "Save Changes" : "Add Question"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type {
+  Question, QuestionRegradeResult, QuestionRevisionEntry, QuestionRevisionField,
+} from "@shared/schema";
+
+const REVISION_FIELD_LABELS: Record<QuestionRevisionField, string> = {
+  questionText: "Question",
+  type: "Type",
+  optionA: "Option A",
+  optionB: "Option B",
+  optionC: "Option C",
+  optionD: "Option D",
+  correctAnswer: "Correct Answer",
+  payload: "Answer Details",
+  explanation: "Explanation",
+  references: "References",
+  subject: "Subject",
+  difficulty: "Difficulty",
+  mode: "Mode",
+  timeLimit: "Time Limit",
+  competitionId: "Competition",
+};
+
+function RevisionValue({ value }: { value: string | null }) {
+  if (value === null) return <span className="text-muted-foreground">(empty)</span>;
+  return <span className="whitespace-pre-wrap break-words">{value}</span>;
+}
+
+// Who changed what on a question, plus regrading of past answers once an
+// answer key has been corrected
+export function QuestionHistoryDialog({
+  question,
+  onOpenChange,
+}: {
+  question: Question | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [regrade, setRegrade] = useState<QuestionRegradeResult | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => setRegrade(null), [question?.id]);
+
+  const { data: history, isLoading } = useQuery<QuestionRevisionEntry[]>({
+    queryKey: ["/api/admin/questions", question?.id, "revisions"],
+    enabled: !!question,
+  });
+
+  const regradeMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const res = await apiRequest("POST", `/api/admin/questions/${question!.id}/regrade`, { dryRun });
+      return res.json() as Promise<QuestionRegradeResult>;
+    },
+    onSuccess: (data) => {
+      setRegrade(data);
+      if (data.dryRun) return;
+      toast({
+        title: "Answers regraded",
+        description: `${data.changed} answer(s) changed across ${data.matches} match(es).`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Regrade failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!question} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Question History</DialogTitle>
+          <DialogDescription>
+            Past matches keep the revision they were played with, so editing a question never changes their results.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : !history || history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No edits have been recorded for this question yet.</p>
+          ) : (
+            history.map((entry) => (
+              <div key={entry.revision} className="space-y-2 rounded-md border p-3" data-testid={`revision-${entry.revision}`}>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">Revision {entry.revision}</span>
+                  {entry.revision === question?.revision && <Badge variant="secondary">Current</Badge>}
+                  <span className="text-muted-foreground">
+                    {entry.editedBy ? `by ${entry.editedBy.username}` : "by an import or before history was kept"}
+                    {" · "}
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {entry.changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Question created</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entry.changes.map((change) => (
+                        <TableRow key={change.field}>
+                          <TableCell className="font-medium">{REVISION_FIELD_LABELS[change.field]}</TableCell>
+                          <TableCell className="max-w-xs"><RevisionValue value={change.before} /></TableCell>
+                          <TableCell className="max-w-xs"><RevisionValue value={change.after} /></TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            ))
+          )}
+
+          <div className="space-y-3 border-t pt-4">
+            <div>
+              <p className="font-medium">Regrade Past Answers</p>
+              <p className="text-sm text-muted-foreground">
+                Re-marks answers from completed matches against the current revision, then updates match scores and standings.
+              </p>
+            </div>
+            {regrade && (
+              <p className="text-sm" data-testid="text-regrade-result">
+                {regrade.dryRun
+                  ? `${regrade.changed} of ${regrade.answers} answer(s) in ${regrade.matches} completed match(es) would change.`
+                  : `Regraded ${regrade.answers} answer(s); ${regrade.changed} changed.`}
+              </p>
+            )}
+            {regrade?.dryRun && regrade.lockedMatches > 0 && (
+              <p className="text-sm text-destructive" data-testid="text-regrade-locked">
+                {regrade.lockedMatches} knockout match(es) would change after their next round started, so this regrade cannot be applied.
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regradeMutation.mutate(true)}
+                disabled={regradeMutation.isPending}
+                data-testid="button-check-regrade"
+              >
+                Check Answers
+              </Button>
+              <Button
+                onClick={() => regradeMutation.mutate(false)}
+                disabled={!regrade?.dryRun || regrade.answers === 0 || regrade.lockedMatches > 0 || regradeMutation.isPending}
+                data-testid="button-confirm-regrade"
+              >
+                {regradeMutation.isPending ? "Working..." : "Regrade Answers"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
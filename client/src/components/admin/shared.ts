@@ -0,0 +1,36 @@
+import type { Competition, Question, Match, MatchControl, MatchLobby, Payment, Team } from "@shared/schema";
+
+export interface AdminData {
+  competitions: Competition[];
+  questions: Question[];
+  matches: (Match & { homeTeam: Team; awayTeam: Team; competition: Competition; lobby: MatchLobby | null })[];
+  payments: (Payment & { team?: Team })[];
+  stats: {
+    totalTeams: number;
+    totalUsers: number;
+    totalRevenue: number;
+    activeCompetitions: number;
+  };
+}
+
+export type AdminMatch = AdminData["matches"][number];
+
+// Admin changes to an unplayed fixture, each posted to /api/admin/matches/:id/<action>
+export type FixtureChange = "reschedule" | "postpone" | "cancel" | "walkover";
+
+export const AUDIT_LABELS: Record<MatchControl["action"] | FixtureChange, string> = {
+  reschedule: "Rescheduled",
+  postpone: "Postponed",
+  cancel: "Cancelled",
+  walkover: "Awarded walkover",
+  pause: "Paused",
+  resume: "Resumed",
+  extend: "Extended time",
+  skip: "Skipped question",
+  void: "Voided question",
+  adjust_score: "Adjusted score",
+  end: "Ended early",
+};
+
+// Sentinel for "no filter" since Select items cannot have an empty value
+export const ANY = "any";
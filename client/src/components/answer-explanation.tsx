@@ -0,0 +1,46 @@
+import { ExternalLink, Lightbulb } from "lucide-react";
+import { RichContent } from "@/components/rich-content";
+import type { QuestionReference } from "@shared/schema";
+
+// Explanation and further reading for a question, shown once it has been answered
+export function AnswerExplanation({
+  explanation,
+  references,
+}: {
+  explanation: string | null;
+  references: QuestionReference[];
+}) {
+  if (!explanation && references.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-md bg-muted/50 p-4 text-sm" data-testid="answer-explanation">
+      {explanation && (
+        <div className="flex gap-2">
+          <Lightbulb className="h-4 w-4 shrink-0 mt-0.5 text-yellow-500" />
+          <RichContent text={explanation} />
+        </div>
+      )}
+      {references.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-muted-foreground">References</p>
+          <ul className="space-y-1">
+            {references.map((reference, i) => (
+              <li key={i}>
+                <a
+                  href={reference.url}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="inline-flex items-center gap-1 text-primary hover:underline break-all"
+                  data-testid={`link-reference-${i}`}
+                >
+                  {reference.label || reference.url}
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
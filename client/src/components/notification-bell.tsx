@@ -0,0 +1,98 @@
+import { Bell } from "lucide-react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+
+const NOTIFICATION_POLL_MS = 60000;
+
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: NOTIFICATION_POLL_MS,
+  });
+
+  const unread = notifications.filter(n => !n.readAt).length;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) markReadMutation.mutate(notification.id);
+    if (notification.matchId) setLocation(`/match/${notification.matchId}`);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-bold text-destructive-foreground"
+              data-testid="badge-unread-notifications"
+            >
+              {unread}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between gap-2 border-b p-3">
+          <p className="font-medium">Notifications</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={unread === 0 || markAllReadMutation.isPending}
+            onClick={() => markAllReadMutation.mutate()}
+            data-testid="button-mark-all-read"
+          >
+            Mark all read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                className={`block w-full border-b p-3 text-left hover-elevate ${notification.readAt ? "text-muted-foreground" : ""}`}
+                onClick={() => openNotification(notification)}
+                data-testid={`notification-${notification.id}`}
+              >
+                <p className={`text-sm ${notification.readAt ? "" : "font-medium"}`}>{notification.title}</p>
+                <p className="text-xs text-muted-foreground">{notification.message}</p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {new Date(notification.createdAt).toLocaleString()}
+                </p>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,344 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, CheckCircle, Users, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { RichContent } from "@/components/rich-content";
+import {
+  encodeListAnswer, formatAnswer, numericAnswerError, parseIndexAnswer, parseNumericAnswer, parseOrderAnswer,
+  type PublicQuestionPayload,
+} from "@shared/question-types";
+
+interface AnswerProps<P extends PublicQuestionPayload = PublicQuestionPayload> {
+  payload: P;
+  selectedAnswer: string | null;
+  revealedAnswer: string | null;
+  disabled: boolean;
+  // Team mode: how many teammates proposed each answer
+  proposals?: Record<string, number>;
+  submitLabel: string;
+  onAnswer: (answer: string) => void;
+}
+
+interface ChoiceItem {
+  key: string;
+  label: string;
+  text: string;
+}
+
+function ProposalBadge({ count, testId }: { count?: number; testId: string }) {
+  if (!count) return null;
+  return (
+    <Badge variant="secondary" className="ml-auto" data-testid={testId}>
+      <Users className="h-3 w-3 mr-1" />
+      {count}
+    </Badge>
+  );
+}
+
+// Multiple choice and true/false: picking an option is the answer
+function ChoiceAnswer({
+  choices,
+  selectedAnswer,
+  revealedAnswer,
+  disabled,
+  proposals,
+  onAnswer,
+}: Omit<AnswerProps, "payload" | "submitLabel"> & { choices: ChoiceItem[] }) {
+  const showResult = revealedAnswer !== null;
+
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      {choices.map((choice) => {
+        const isSelected = selectedAnswer === choice.key;
+        const isCorrect = choice.key === revealedAnswer;
+
+        let buttonClass = "w-full p-4 rounded-md border text-left transition-all";
+        if (showResult) {
+          if (isCorrect) {
+            buttonClass += " border-green-500 bg-green-500/10";
+          } else if (isSelected) {
+            buttonClass += " border-red-500 bg-red-500/10";
+          } else {
+            buttonClass += " opacity-50";
+          }
+        } else if (isSelected) {
+          buttonClass += " border-primary bg-primary/10";
+        } else {
+          buttonClass += " hover-elevate";
+        }
+
+        return (
+          <button
+            key={choice.key}
+            onClick={() => !disabled && onAnswer(choice.key)}
+            disabled={disabled}
+            className={buttonClass}
+            data-testid={`option-${choice.key}`}
+          >
+            <div className="flex items-center gap-3">
+              <span className={`w-10 h-10 shrink-0 rounded-full flex items-center justify-center text-sm font-bold ${
+                showResult && (isSelected || isCorrect)
+                  ? isCorrect ? "bg-green-500 text-white" : "bg-red-500 text-white"
+                  : isSelected ? "bg-primary text-primary-foreground" : "bg-muted"
+              }`}>
+                {showResult && isCorrect ? (
+                  <CheckCircle className="h-5 w-5" />
+                ) : showResult && isSelected ? (
+                  <XCircle className="h-5 w-5" />
+                ) : (
+                  choice.label
+                )}
+              </span>
+              <RichContent text={choice.text} className="text-lg" />
+              <ProposalBadge count={proposals?.[choice.key]} testId={`proposal-count-${choice.key}`} />
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function SubmitRow({
+  disabled,
+  submitLabel,
+  onSubmit,
+}: {
+  disabled: boolean;
+  submitLabel: string;
+  onSubmit: () => void;
+}) {
+  return (
+    <div className="flex justify-end">
+      <Button onClick={onSubmit} disabled={disabled} data-testid="button-submit-answer">
+        {submitLabel}
+      </Button>
+    </div>
+  );
+}
+
+function MultiSelectAnswer({
+  payload,
+  selectedAnswer,
+  revealedAnswer,
+  disabled,
+  submitLabel,
+  onAnswer,
+}: AnswerProps<Extract<PublicQuestionPayload, { type: "multi_select" }>>) {
+  const [picked, setPicked] = useState<number[]>(() => parseIndexAnswer(selectedAnswer));
+  useEffect(() => setPicked(parseIndexAnswer(selectedAnswer)), [selectedAnswer]);
+
+  const correct = revealedAnswer === null ? null : parseIndexAnswer(revealedAnswer);
+  const toggle = (index: number) =>
+    setPicked(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">Select every correct option</p>
+      <div className="grid gap-3 md:grid-cols-2">
+        {payload.options.map((option, index) => {
+          const isPicked = picked.includes(index);
+          const isCorrect = correct?.includes(index) ?? false;
+          const stateClass = correct
+            ? isCorrect ? "border-green-500 bg-green-500/10" : isPicked ? "border-red-500 bg-red-500/10" : "opacity-50"
+            : isPicked ? "border-primary bg-primary/10" : "hover-elevate";
+          return (
+            <button
+              key={index}
+              onClick={() => !disabled && toggle(index)}
+              disabled={disabled}
+              className={`w-full p-4 rounded-md border text-left transition-all ${stateClass}`}
+              data-testid={`option-${index}`}
+            >
+              <div className="flex items-center gap-3">
+                <span className={`w-6 h-6 shrink-0 rounded border flex items-center justify-center ${
+                  isPicked ? "bg-primary text-primary-foreground border-primary" : ""
+                }`}>
+                  {isPicked && <CheckCircle className="h-4 w-4" />}
+                </span>
+                <RichContent text={option} className="text-lg" />
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      {!disabled && (
+        <SubmitRow
+          disabled={picked.length === 0}
+          submitLabel={submitLabel}
+          onSubmit={() => onAnswer(encodeListAnswer([...picked].sort((a, b) => a - b)))}
+        />
+      )}
+    </div>
+  );
+}
+
+function TextAnswer({
+  payload,
+  selectedAnswer,
+  disabled,
+  submitLabel,
+  onAnswer,
+}: AnswerProps<Extract<PublicQuestionPayload, { type: "numeric" | "short_text" }>>) {
+  const [value, setValue] = useState(selectedAnswer ?? "");
+  useEffect(() => setValue(selectedAnswer ?? ""), [selectedAnswer]);
+
+  const isNumeric = payload.type === "numeric";
+  const numericError = isNumeric && value.trim() !== "" ? numericAnswerError(value) : null;
+  const isValid = isNumeric ? parseNumericAnswer(value) !== null : value.trim() !== "";
+  const submit = () => isValid && onAnswer(value.trim());
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Input
+          inputMode={isNumeric ? "decimal" : "text"}
+          placeholder={isNumeric ? "Enter a number" : "Type your answer"}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && !disabled && submit()}
+          disabled={disabled}
+          className="text-lg"
+          data-testid="input-answer"
+        />
+        {payload.type === "numeric" && payload.unit && (
+          <span className="text-muted-foreground">{payload.unit}</span>
+        )}
+      </div>
+      {numericError && (
+        <p className="text-sm text-destructive" data-testid="text-answer-error">{numericError}</p>
+      )}
+      {!disabled && <SubmitRow disabled={!isValid} submitLabel={submitLabel} onSubmit={submit} />}
+    </div>
+  );
+}
+
+function OrderingAnswer({
+  payload,
+  selectedAnswer,
+  revealedAnswer,
+  disabled,
+  submitLabel,
+  onAnswer,
+}: AnswerProps<Extract<PublicQuestionPayload, { type: "ordering" }>>) {
+  const initialOrder = () => {
+    const proposed = parseOrderAnswer(selectedAnswer);
+    return proposed.length === payload.items.length ? proposed : payload.items;
+  };
+  const [order, setOrder] = useState<string[]>(initialOrder);
+  useEffect(() => setOrder(initialOrder()), [selectedAnswer, payload.items]);
+
+  const correct = revealedAnswer === null ? null : parseOrderAnswer(revealedAnswer);
+  const move = (index: number, offset: number) => setOrder((prev) => {
+    const next = [...prev];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    return next;
+  });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">Put the items in the right order</p>
+      <ol className="space-y-2">
+        {order.map((item, index) => {
+          const stateClass = correct
+            ? correct[index] === item ? "border-green-500 bg-green-500/10" : "border-red-500 bg-red-500/10"
+            : "";
+          return (
+            <li
+              key={item}
+              className={`flex items-center gap-3 rounded-md border p-3 ${stateClass}`}
+              data-testid={`ordering-item-${index}`}
+            >
+              <span className="w-8 h-8 shrink-0 rounded-full bg-muted flex items-center justify-center text-sm font-bold">
+                {index + 1}
+              </span>
+              <RichContent text={item} className="flex-1" />
+              {!disabled && (
+                <div className="flex gap-1">
+                  <Button size="icon" variant="ghost" disabled={index === 0} onClick={() => move(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" disabled={index === order.length - 1} onClick={() => move(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {!disabled && (
+        <SubmitRow disabled={false} submitLabel={submitLabel} onSubmit={() => onAnswer(encodeListAnswer(order))} />
+      )}
+    </div>
+  );
+}
+
+// Renders the answer input for any question type. Choice types answer on
+// click; the others are composed first and sent with the submit button
+export function QuestionAnswer({
+  payload,
+  submitLabel = "Submit Answer",
+  ...props
+}: Omit<AnswerProps, "submitLabel"> & { submitLabel?: string }) {
+  const answerProps = { ...props, submitLabel };
+
+  let input: JSX.Element;
+  switch (payload.type) {
+    case "multiple_choice":
+      input = (
+        <ChoiceAnswer
+          {...answerProps}
+          choices={payload.options.map(o => ({ key: o.key, label: o.key, text: o.text }))}
+        />
+      );
+      break;
+    case "true_false":
+      input = (
+        <ChoiceAnswer
+          {...answerProps}
+          choices={[
+            { key: "true", label: "T", text: "True" },
+            { key: "false", label: "F", text: "False" },
+          ]}
+        />
+      );
+      break;
+    case "multi_select":
+      input = <MultiSelectAnswer {...answerProps} payload={payload} />;
+      break;
+    case "numeric":
+    case "short_text":
+      input = <TextAnswer {...answerProps} payload={payload} />;
+      break;
+    case "ordering":
+      input = <OrderingAnswer {...answerProps} payload={payload} />;
+      break;
+  }
+
+  const isChoice = payload.type === "multiple_choice" || payload.type === "true_false";
+  const proposals = Object.entries(props.proposals ?? {});
+
+  return (
+    <div className="space-y-4">
+      {input}
+      {!isChoice && proposals.length > 0 && (
+        <div className="space-y-1 text-sm" data-testid="team-proposals">
+          <p className="text-muted-foreground">Team proposals</p>
+          {proposals.map(([answer, count]) => (
+            <p key={answer} className="flex items-center gap-2">
+              <Users className="h-3 w-3" />
+              {formatAnswer(payload, answer)} ({count})
+            </p>
+          ))}
+        </div>
+      )}
+      {!isChoice && props.revealedAnswer !== null && (
+        <p className="text-sm" data-testid="text-revealed-answer">
+          Correct answer: <span className="font-medium">{formatAnswer(payload, props.revealedAnswer)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
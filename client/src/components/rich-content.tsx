@@ -0,0 +1,78 @@
+import { useMemo } from "react";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import { parseRichContent, type RichInline } from "@shared/rich-content";
+
+// KaTeX output is generated markup with untrusted commands (\href, \includegraphics...)
+// disabled, so it is the only HTML we inject
+function MathSpan({ tex, display }: { tex: string; display: boolean }) {
+  const html = useMemo(() => katex.renderToString(tex, {
+    displayMode: display,
+    throwOnError: false,
+    trust: false,
+    strict: "ignore",
+    maxSize: 10,
+    maxExpand: 500,
+  }), [tex, display]);
+
+  return (
+    <span
+      className={display ? "block overflow-x-auto py-2" : undefined}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
+
+function Inline({ inline }: { inline: RichInline }) {
+  switch (inline.type) {
+    case "text":
+      return <>{inline.text}</>;
+    case "code":
+      return <code className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">{inline.code}</code>;
+    case "math":
+      return <MathSpan tex={inline.tex} display={false} />;
+    case "image":
+      return (
+        <img
+          src={inline.src}
+          alt={inline.alt}
+          loading="lazy"
+          className="my-2 inline-block max-h-64 max-w-full rounded-md align-middle"
+        />
+      );
+  }
+}
+
+// Renders question stems, options and explanations. Only spans are used so
+// the content is valid inside buttons as well as paragraphs
+export function RichContent({ text, className }: { text: string; className?: string }) {
+  const blocks = useMemo(() => parseRichContent(text), [text]);
+
+  return (
+    <span className={`block space-y-2 ${className ?? ""}`}>
+      {blocks.map((block, i) => {
+        if (block.type === "math") return <MathSpan key={i} tex={block.tex} display />;
+        if (block.type === "code") {
+          return (
+            <code
+              key={i}
+              className="block overflow-x-auto whitespace-pre rounded-md bg-muted p-3 font-mono text-sm"
+              data-language={block.lang || undefined}
+            >
+              {block.code}
+            </code>
+          );
+        }
+        return (
+          <span key={i} className="block">
+            {block.lines.map((line, j) => (
+              <span key={j} className="block">
+                {line.map((inline, k) => <Inline key={k} inline={inline} />)}
+              </span>
+            ))}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
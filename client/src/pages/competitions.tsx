@@ -20,7 +20,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Competition, Team, Match, Standing } from "@shared/schema";
+import type { Competition, Team, Match, Standing, BracketSlot } from "@shared/schema";
 
 interface CompetitionWithDetails extends Competition {
   registeredTeams: number;
@@ -28,8 +28,28 @@ interface CompetitionWithDetails extends Competition {
   userTeams: Team[];
   standings: (Standing & { team: Team })[];
   matches: (Match & { homeTeam: Team; awayTeam: Team })[];
+  bracket: BracketSlotWithDetails[];
 }
 
+interface BracketSlotWithDetails extends BracketSlot {
+  homeTeam: Team | null;
+  awayTeam: Team | null;
+  match: Match | null;
+}
+
+// Fixture list shorthand; waiting matches show their kick-off time instead
+const MATCH_STATUS_LABELS: Partial<Record<Match["status"], string>> = {
+  live: "LIVE",
+  completed: "FT",
+  forfeited: "W/O",
+  postponed: "PP",
+  cancelled: "CANC",
+};
+
+// Matches that have a score worth showing
+const hasResult = (match: Match) =>
+  match.status === "live" || match.status === "completed" || match.status === "forfeited";
+
 function CompetitionCard({ 
   competition, 
   onRegister 
@@ -173,6 +193,68 @@ function LeagueTable({ standings }: { standings: (Standing & { team: Team })[] }
   );
 }
 
+function roundLabel(round: number, totalRounds: number) {
+  const fromFinal = totalRounds - round;
+  if (fromFinal === 0) return "Final";
+  if (fromFinal === 1) return "Semi-finals";
+  if (fromFinal === 2) return "Quarter-finals";
+  return `Round ${round}`;
+}
+
+function KnockoutBracket({ slots }: { slots: BracketSlotWithDetails[] }) {
+  if (slots.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Trophy className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p>The bracket has not been drawn yet</p>
+      </div>
+    );
+  }
+
+  const totalRounds = Math.max(...slots.map(s => s.round));
+  const rounds = Array.from({ length: totalRounds }, (_, i) =>
+    slots.filter(s => s.round === i + 1).sort((a, b) => a.position - b.position)
+  );
+
+  const renderTeam = (slot: BracketSlotWithDetails, side: "home" | "away") => {
+    const team = side === "home" ? slot.homeTeam : slot.awayTeam;
+    const score = side === "home" ? slot.match?.homeScore : slot.match?.awayScore;
+    const isWinner = !!team && slot.winnerTeamId === team.id;
+    return (
+      <div className={`flex items-center justify-between gap-2 px-3 py-2 ${isWinner ? "font-bold" : ""}`}>
+        <span className={team ? "" : "text-muted-foreground"}>{team?.name ?? "TBD"}</span>
+        {slot.match && hasResult(slot.match) && (
+          <span className="font-mono">{score}</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-6 min-w-max">
+        {rounds.map((roundSlots, index) => (
+          <div key={index} className="flex flex-col justify-around gap-4 w-56">
+            <h3 className="text-sm font-medium text-muted-foreground text-center">
+              {roundLabel(index + 1, totalRounds)}
+            </h3>
+            {roundSlots.map((slot) => (
+              <div
+                key={slot.id}
+                className="rounded-md border bg-muted/50 divide-y"
+                data-testid={`bracket-slot-${slot.round}-${slot.position}`}
+              >
+                {renderTeam(slot, "home")}
+                {renderTeam(slot, "away")}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function MatchesSchedule({ matches }: { matches: (Match & { homeTeam: Team; awayTeam: Team })[] }) {
   const groupedMatches = matches.reduce((acc, match) => {
     const dateKey = new Date(match.scheduledAt).toLocaleDateString();
@@ -203,14 +285,14 @@ function MatchesSchedule({ matches }: { matches: (Match & { homeTeam: Team; away
                 data-testid={`match-row-${match.id}`}
               >
                 <Badge 
-                  variant={match.status === "live" ? "default" : match.status === "completed" ? "secondary" : "outline"}
+                  variant={match.status === "live" ? "default" : hasResult(match) ? "secondary" : "outline"}
                   size="sm"
                 >
-                  {match.status === "live" ? "LIVE" : match.status === "completed" ? "FT" : new Date(match.scheduledAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {MATCH_STATUS_LABELS[match.status] ?? new Date(match.scheduledAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                 </Badge>
                 <div className="flex-1 flex items-center gap-2">
                   <span className="font-medium">{match.homeTeam.name}</span>
-                  {match.status !== "waiting" ? (
+                  {hasResult(match) ? (
                     <span className="font-mono px-2">{match.homeScore} - {match.awayScore}</span>
                   ) : (
                     <span className="text-muted-foreground px-2">vs</span>
@@ -222,6 +304,11 @@ function MatchesSchedule({ matches }: { matches: (Match & { homeTeam: Team; away
                     <Link href={`/match/${match.id}`}>Join</Link>
                   </Button>
                 )}
+                {(match.status === "live" || match.status === "completed") && (
+                  <Button size="sm" variant="outline" asChild>
+                    <Link href={`/watch/${match.id}`} data-testid={`link-watch-${match.id}`}>Watch</Link>
+                  </Button>
+                )}
               </div>
             ))}
           </div>
@@ -401,7 +488,11 @@ export default function CompetitionsPage() {
             </CardHeader>
             <CardContent>
               {activeCompetition ? (
-                <LeagueTable standings={activeCompetition.standings} />
+                activeCompetition.format === "knockout" ? (
+                  <KnockoutBracket slots={activeCompetition.bracket} />
+                ) : (
+                  <LeagueTable standings={activeCompetition.standings} />
+                )
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   <Trophy className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -67,7 +67,8 @@ function MatchCard({
   match: Match & { homeTeam: Team; awayTeam: Team; competition: Competition } 
 }) {
   const isLive = match.status === "live";
-  const isCompleted = match.status === "completed";
+  const isCompleted = match.status === "completed" || match.status === "forfeited";
+  const isPostponed = match.status === "postponed";
   const scheduledDate = new Date(match.scheduledAt);
 
   return (
@@ -75,7 +76,7 @@ function MatchCard({
       <CardContent className="p-4">
         <div className="flex items-center justify-between gap-4 mb-3">
           <Badge variant={isLive ? "default" : isCompleted ? "secondary" : "outline"} size="sm">
-            {isLive ? "LIVE" : isCompleted ? "Completed" : "Upcoming"}
+            {isLive ? "LIVE" : isCompleted ? "Completed" : isPostponed ? "Postponed" : match.status === "cancelled" ? "Cancelled" : "Upcoming"}
           </Badge>
           <span className="text-xs text-muted-foreground">{match.competition.name}</span>
         </div>
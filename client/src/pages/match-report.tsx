@@ -0,0 +1,352 @@
+import { useState, useEffect } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  CheckCircle,
+  XCircle,
+  Play,
+  Pause,
+  SkipBack,
+  SkipForward,
+  Scale,
+} from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AnswerExplanation } from "@/components/answer-explanation";
+import { RichContent } from "@/components/rich-content";
+import { formatAnswer } from "@shared/question-types";
+import type { AnswerAccuracy, Match, MatchReport, QuestionBreakdown, Team, TimelineEvent } from "@shared/schema";
+
+interface MatchReportData {
+  match: Match & { homeTeam: Team; awayTeam: Team };
+  report: MatchReport;
+}
+
+const REPLAY_STEP_MS = 1500;
+
+type TimelineAnswer = Extract<TimelineEvent, { kind: "answer" }>;
+
+function describeAnswer(report: MatchReport, event: TimelineAnswer) {
+  const question = report.questions[event.questionIndex]?.question;
+  return question ? formatAnswer(question.payload, event.answer) : event.answer ?? "-";
+}
+
+function formatSeconds(timeTaken: number | null) {
+  return timeTaken === null ? "-" : `${(timeTaken / 1000).toFixed(1)}s`;
+}
+
+function AccuracyBar({ label, accuracy }: { label: string; accuracy?: AnswerAccuracy }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="truncate">{label}</span>
+        <span className="font-mono text-muted-foreground">
+          {accuracy ? `${accuracy.percentage}% (${accuracy.correct}/${accuracy.answered})` : "-"}
+        </span>
+      </div>
+      <Progress value={accuracy?.percentage ?? 0} className="h-2" />
+    </div>
+  );
+}
+
+function QuestionCard({
+  breakdown,
+  data,
+}: {
+  breakdown: QuestionBreakdown;
+  data: MatchReportData;
+}) {
+  const { match, report } = data;
+  const { question } = breakdown;
+  const payload = question.payload;
+
+  return (
+    <Card data-testid={`report-question-${breakdown.index}`}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-4">
+          <CardDescription>Question {breakdown.index + 1}</CardDescription>
+          <Badge variant="outline">{question.subject}</Badge>
+        </div>
+        <CardTitle className="text-base">
+          <RichContent text={question.questionText} />
+        </CardTitle>
+        {breakdown.answerKey !== null && (
+          <p className="text-sm text-muted-foreground">
+            Correct answer: <span className="font-medium text-foreground">{formatAnswer(payload, breakdown.answerKey)}</span>
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <AccuracyBar label={match.homeTeam.name} accuracy={breakdown.teams[match.homeTeamId]} />
+          <AccuracyBar label={match.awayTeam.name} accuracy={breakdown.teams[match.awayTeamId]} />
+        </div>
+
+        <AnswerExplanation explanation={breakdown.explanation} references={breakdown.references} />
+
+        {breakdown.answers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No answers were submitted</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Player</TableHead>
+                <TableHead>Team</TableHead>
+                <TableHead>Answer</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+                <TableHead className="text-right">Points</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {breakdown.answers.map((answer) => (
+                <TableRow key={answer.userId}>
+                  <TableCell>{report.players[answer.userId]?.username ?? "Former member"}</TableCell>
+                  <TableCell>
+                    {answer.teamId === match.homeTeamId ? match.homeTeam.name : match.awayTeam.name}
+                  </TableCell>
+                  <TableCell>
+                    <span className="flex items-center gap-1">
+                      {answer.isCorrect ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-destructive" />
+                      )}
+                      {formatAnswer(payload, answer.answer)}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatSeconds(answer.timeTaken)}</TableCell>
+                  <TableCell className="text-right font-mono">{answer.points}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TimelineReplay({ data }: { data: MatchReportData }) {
+  const { match, report } = data;
+  const { timeline } = report;
+  // Step 0 is kick-off; step n shows the state after the nth answer or score adjustment
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= timeline.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, timeline.length]);
+
+  if (timeline.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center text-muted-foreground">
+          No answers were recorded for this match
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const current = step > 0 ? timeline[step - 1] : null;
+  const history = timeline.slice(0, step).reverse();
+
+  const togglePlay = () => {
+    if (step >= timeline.length) setStep(0);
+    setIsPlaying(p => !p);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-6">
+        <div className="flex items-center justify-between gap-8">
+          <div className="flex-1 text-center">
+            <p className="font-bold">{match.homeTeam.name}</p>
+            <p className="text-3xl font-mono font-bold">{current?.homeScore ?? 0}</p>
+          </div>
+          <div className="text-center text-sm text-muted-foreground">
+            {!current ? "Kick-off" : current.kind === "answer" ? `Question ${current.questionIndex + 1}` : "Score adjustment"}
+          </div>
+          <div className="flex-1 text-center">
+            <p className="font-bold">{match.awayTeam.name}</p>
+            <p className="text-3xl font-mono font-bold">{current?.awayScore ?? 0}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setStep(s => Math.max(0, s - 1))}
+            disabled={step === 0}
+            data-testid="button-replay-back"
+          >
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={togglePlay} data-testid="button-replay-play">
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setStep(s => Math.min(timeline.length, s + 1))}
+            disabled={step >= timeline.length}
+            data-testid="button-replay-forward"
+          >
+            <SkipForward className="h-4 w-4" />
+          </Button>
+          <Slider
+            className="flex-1"
+            min={0}
+            max={timeline.length}
+            step={1}
+            value={[step]}
+            onValueChange={([value]) => {
+              setIsPlaying(false);
+              setStep(value);
+            }}
+          />
+          <span className="text-sm font-mono text-muted-foreground w-16 text-right">
+            {step}/{timeline.length}
+          </span>
+        </div>
+
+        <div className="space-y-2">
+          {history.map((event, i) => (
+            <div
+              key={event.kind === "answer" ? `${event.questionIndex}-${event.userId}` : `adjustment-${event.at}-${event.teamId}`}
+              className={`flex items-center justify-between gap-4 rounded-md border p-3 text-sm ${i === 0 ? "border-primary" : ""}`}
+            >
+              {event.kind === "answer" ? (
+                <span className="flex items-center gap-2">
+                  {event.isCorrect ? (
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-destructive" />
+                  )}
+                  <span className="font-medium">{report.players[event.userId]?.username ?? "Former member"}</span>
+                  <span className="text-muted-foreground">
+                    {report.answersShown
+                      ? `answered ${describeAnswer(report, event)} on Q${event.questionIndex + 1} in ${formatSeconds(event.timeTaken)}`
+                      : `answered Q${event.questionIndex + 1} in ${formatSeconds(event.timeTaken)}`}
+                  </span>
+                </span>
+              ) : (
+                <span className="flex items-center gap-2">
+                  <Scale className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">
+                    {event.teamId === match.homeTeamId ? match.homeTeam.name : match.awayTeam.name}
+                  </span>
+                  <span className="text-muted-foreground">score adjusted: {event.reason}</span>
+                </span>
+              )}
+              <span className="font-mono">{event.points > 0 ? `+${event.points}` : event.points}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MatchReportPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+
+  const { data, isLoading } = useQuery<MatchReportData>({
+    queryKey: ["/api/matches", id, "report"],
+    enabled: !!id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            The match report is available once the match is complete
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { match, report } = data;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Button variant="ghost" size="sm" onClick={() => setLocation(`/match/${id}`)} data-testid="button-back-to-match">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Match
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-3xl font-bold">Match Report</h1>
+        <p className="text-muted-foreground">
+          {match.homeTeam.name} {match.homeScore} - {match.awayScore} {match.awayTeam.name}
+        </p>
+        {!report.answersShown && (
+          <p className="text-sm text-muted-foreground mt-1" data-testid="text-answers-hidden">
+            Answers and the answer key are only shown to the players in this match.
+          </p>
+        )}
+      </div>
+
+      <Tabs defaultValue="questions">
+        <TabsList>
+          <TabsTrigger value="questions" data-testid="tab-questions">Questions</TabsTrigger>
+          <TabsTrigger value="subjects" data-testid="tab-subjects">Subjects</TabsTrigger>
+          <TabsTrigger value="replay" data-testid="tab-replay">Replay</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="questions" className="space-y-4">
+          {report.questions.map((breakdown) => (
+            <QuestionCard key={breakdown.question.id} breakdown={breakdown} data={data} />
+          ))}
+        </TabsContent>
+
+        <TabsContent value="subjects">
+          <div className="grid gap-4 md:grid-cols-2">
+            {report.subjects.map(({ subject, teams }) => (
+              <Card key={subject}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">{subject}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <AccuracyBar label={match.homeTeam.name} accuracy={teams[match.homeTeamId]} />
+                  <AccuracyBar label={match.awayTeam.name} accuracy={teams[match.awayTeamId]} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="replay">
+          <TimelineReplay data={data} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
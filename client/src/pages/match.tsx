@@ -1,15 +1,15 @@
-import { useState, useEffect, useCallback } from "react";
-import { useParams, useLocation } from "wouter";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useParams, useLocation, useRoute } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { 
   Clock, 
-  Users, 
   Trophy,
   CheckCircle,
-  XCircle,
   Wifi,
   WifiOff,
-  ArrowLeft
+  ArrowLeft,
+  BarChart3,
+  CalendarX
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,39 +17,58 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
+import { QuestionAnswer } from "@/components/question-answer";
+import { RichContent } from "@/components/rich-content";
 import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
-import type { Match, Team, Question, User } from "@shared/schema";
+import type { Match, MatchLobby, Team, PublicQuestion, User } from "@shared/schema";
+
+type MatchTeam = Team & { members: { user: Pick<User, "id" | "username"> }[] };
 
 interface MatchData {
   match: Match & { 
-    homeTeam: Team & { members: { user: User }[] }; 
-    awayTeam: Team & { members: { user: User }[] };
+    homeTeam: MatchTeam; 
+    awayTeam: MatchTeam;
   };
-  questions: Question[];
-  userTeamId: string;
+  userTeamId?: string;
   playerScores: Record<string, number>;
 }
 
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
 interface MatchState {
   currentQuestionIndex: number;
+  totalQuestions: number;
+  currentQuestion: PublicQuestion | null;
   timeRemaining: number;
   selectedAnswer: string | null;
   hasAnswered: boolean;
+  isLocked: boolean;
+  revealedAnswer: string | null;
+  isTieBreaker: boolean;
+  answerMode: "individual" | "team";
+  teamProposals: Record<string, string>;
   homeScore: number;
   awayScore: number;
-  status: "waiting" | "live" | "completed";
+  playerScores: Record<string, number>;
+  status: Match["status"];
+  forfeitedBy: string | null;
+  isPaused: boolean;
 }
 
 function MatchHeader({ 
   match, 
   state,
   isConnected,
+  isReconnecting,
   onLeave 
 }: { 
   match: MatchData["match"]; 
   state: MatchState;
   isConnected: boolean;
+  isReconnecting: boolean;
   onLeave: () => void;
 }) {
   return (
@@ -66,12 +85,20 @@ function MatchHeader({
               <Wifi className="h-3 w-3 mr-1" />
               Connected
             </Badge>
+          ) : isReconnecting ? (
+            <Badge variant="secondary" data-testid="badge-reconnecting">
+              <WifiOff className="h-3 w-3 mr-1" />
+              Reconnecting...
+            </Badge>
           ) : (
             <Badge variant="destructive">
               <WifiOff className="h-3 w-3 mr-1" />
               Disconnected
             </Badge>
           )}
+          {state.isPaused && (
+            <Badge variant="secondary" data-testid="badge-paused">PAUSED</Badge>
+          )}
           <Badge variant={state.status === "live" ? "default" : "secondary"}>
             {state.status.toUpperCase()}
           </Badge>
@@ -110,28 +137,47 @@ function QuestionDisplay({
   totalQuestions,
   selectedAnswer,
   hasAnswered,
+  isLocked,
+  revealedAnswer,
+  isTieBreaker,
+  isSpectator,
+  teamProposals,
+  onLockIn,
   onAnswer,
 }: {
-  question: Question;
+  question: PublicQuestion;
   questionNumber: number;
   totalQuestions: number;
   selectedAnswer: string | null;
   hasAnswered: boolean;
+  isLocked: boolean;
+  revealedAnswer: string | null;
+  isTieBreaker: boolean;
+  isSpectator: boolean;
+  teamProposals: Record<string, string> | null;
+  onLockIn?: () => void;
   onAnswer: (answer: string) => void;
 }) {
-  const options = [
-    { key: "A", value: question.optionA },
-    { key: "B", value: question.optionB },
-    { key: "C", value: question.optionC },
-    { key: "D", value: question.optionD },
-  ];
+  const canAnswer = !hasAnswered && !isLocked && !isSpectator;
+  const proposalCounts = Object.values(teamProposals || {}).reduce((acc, answer) => {
+    acc[answer] = (acc[answer] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
 
   return (
     <div className="max-w-3xl mx-auto p-6 space-y-6">
       <div className="flex items-center justify-between gap-4">
-        <Badge variant="outline">
-          Question {questionNumber}/{totalQuestions}
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">
+            Question {questionNumber}/{totalQuestions}
+          </Badge>
+          {isTieBreaker && (
+            <Badge variant="destructive" data-testid="badge-sudden-death">Sudden Death</Badge>
+          )}
+          {isSpectator && (
+            <Badge variant="outline" data-testid="badge-spectator">Spectating</Badge>
+          )}
+        </div>
         <Badge variant="secondary">{question.subject}</Badge>
       </div>
 
@@ -139,58 +185,29 @@ function QuestionDisplay({
 
       <Card>
         <CardContent className="p-6">
-          <p className="text-xl font-medium mb-8">{question.questionText}</p>
+          <RichContent text={question.questionText} className="text-xl font-medium mb-8" />
           
-          <div className="grid gap-3 md:grid-cols-2">
-            {options.map((option) => {
-              const isSelected = selectedAnswer === option.key;
-              const showResult = hasAnswered;
-              const isCorrect = option.key === question.correctAnswer;
-              
-              let buttonClass = "w-full p-4 rounded-md border text-left transition-all";
-              
-              if (showResult) {
-                if (isCorrect) {
-                  buttonClass += " border-green-500 bg-green-500/10";
-                } else if (isSelected && !isCorrect) {
-                  buttonClass += " border-red-500 bg-red-500/10";
-                } else {
-                  buttonClass += " opacity-50";
-                }
-              } else if (isSelected) {
-                buttonClass += " border-primary bg-primary/10";
-              } else {
-                buttonClass += " hover-elevate";
-              }
-
-              return (
-                <button
-                  key={option.key}
-                  onClick={() => !hasAnswered && onAnswer(option.key)}
-                  disabled={hasAnswered}
-                  className={buttonClass}
-                  data-testid={`match-option-${option.key}`}
-                >
-                  <div className="flex items-center gap-3">
-                    <span className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-bold ${
-                      isSelected || (showResult && isCorrect)
-                        ? isCorrect ? "bg-green-500 text-white" : "bg-red-500 text-white"
-                        : "bg-muted"
-                    }`}>
-                      {showResult && isCorrect ? (
-                        <CheckCircle className="h-5 w-5" />
-                      ) : showResult && isSelected && !isCorrect ? (
-                        <XCircle className="h-5 w-5" />
-                      ) : (
-                        option.key
-                      )}
-                    </span>
-                    <span className="text-lg">{option.value}</span>
-                  </div>
-                </button>
-              );
-            })}
-          </div>
+          <QuestionAnswer
+            payload={question.payload}
+            selectedAnswer={selectedAnswer}
+            revealedAnswer={revealedAnswer}
+            disabled={!canAnswer}
+            proposals={proposalCounts}
+            submitLabel={teamProposals ? "Propose Answer" : "Submit Answer"}
+            onAnswer={onAnswer}
+          />
+          {onLockIn && canAnswer && (
+            <div className="flex justify-center mt-6">
+              <Button onClick={onLockIn} disabled={!selectedAnswer} data-testid="button-lock-in">
+                Lock In Team Answer
+              </Button>
+            </div>
+          )}
+          {isLocked && revealedAnswer === null && (
+            <p className="text-sm text-muted-foreground text-center mt-6" data-testid="text-question-locked">
+              Time's up! Revealing the answer...
+            </p>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -202,7 +219,7 @@ function TeamScoreboard({
   playerScores,
   isUserTeam,
 }: {
-  team: Team & { members: { user: User }[] };
+  team: MatchTeam;
   playerScores: Record<string, number>;
   isUserTeam: boolean;
 }) {
@@ -241,28 +258,103 @@ function TeamScoreboard({
   );
 }
 
-function WaitingScreen({ match }: { match: MatchData["match"] }) {
+function LobbyTeamCard({
+  team,
+  lobby,
+}: {
+  team: MatchTeam;
+  lobby: MatchLobby | null;
+}) {
+  const lobbyTeam = lobby?.teams[team.id];
+  const ready = new Set(lobbyTeam?.ready ?? []);
+  const connected = new Set(lobbyTeam?.connected ?? []);
+
+  return (
+    <div className="text-center min-w-[10rem]">
+      <p className="font-bold text-lg mb-1">{team.name}</p>
+      <Badge variant={lobbyTeam?.isReady ? "default" : "outline"} className="mb-3">
+        {ready.size}/{lobby?.minReadyPlayers ?? 1} ready
+      </Badge>
+      <div className="space-y-1">
+        {team.members.map(({ user }) => (
+          <div
+            key={user.id}
+            className="flex items-center justify-center gap-2 text-sm"
+            data-testid={`lobby-player-${user.id}`}
+          >
+            {ready.has(user.id) ? (
+              <CheckCircle className="h-3 w-3 text-green-600" />
+            ) : (
+              <span className={`h-2 w-2 rounded-full ${connected.has(user.id) ? "bg-green-600" : "bg-muted-foreground/40"}`} />
+            )}
+            <span className={connected.has(user.id) ? "" : "text-muted-foreground"}>{user.username}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function WaitingScreen({
+  match,
+  lobby,
+  isReady,
+  onToggleReady,
+}: {
+  match: MatchData["match"];
+  lobby: MatchLobby | null;
+  isReady: boolean;
+  onToggleReady?: () => void;
+}) {
   return (
     <div className="flex flex-col items-center justify-center min-h-[60vh] text-center p-6">
       <div className="h-20 w-20 rounded-full bg-primary/10 flex items-center justify-center mb-6">
         <Clock className="h-10 w-10 text-primary animate-pulse" />
       </div>
       <h2 className="text-2xl font-bold mb-2">Waiting for Match to Start</h2>
-      <p className="text-muted-foreground mb-8">
+      <p className="text-muted-foreground mb-2">
         The match will begin shortly. Make sure all team members are ready.
       </p>
+      <p className="text-sm text-muted-foreground mb-8" data-testid="text-scheduled-at">
+        Scheduled for {new Date(match.scheduledAt).toLocaleString()}. A team with nobody connected
+        shortly after kick-off forfeits the match.
+      </p>
       
-      <div className="flex items-center gap-8">
-        <div className="text-center">
-          <p className="font-bold text-lg mb-1">{match.homeTeam.name}</p>
-          <p className="text-sm text-muted-foreground">{match.homeTeam.members.length}/5 ready</p>
-        </div>
+      <div className="flex items-start gap-8">
+        <LobbyTeamCard team={match.homeTeam} lobby={lobby} />
         <span className="text-2xl font-bold text-muted-foreground">VS</span>
-        <div className="text-center">
-          <p className="font-bold text-lg mb-1">{match.awayTeam.name}</p>
-          <p className="text-sm text-muted-foreground">{match.awayTeam.members.length}/5 ready</p>
-        </div>
+        <LobbyTeamCard team={match.awayTeam} lobby={lobby} />
+      </div>
+
+      {onToggleReady && (
+        <Button
+          className="mt-8"
+          size="lg"
+          variant={isReady ? "outline" : "default"}
+          onClick={onToggleReady}
+          data-testid="button-toggle-ready"
+        >
+          {isReady ? "Not Ready" : "I'm Ready"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function FixtureNotice({ match, status }: { match: MatchData["match"]; status: "postponed" | "cancelled" }) {
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] text-center p-6">
+      <div className="h-20 w-20 rounded-full bg-muted flex items-center justify-center mb-6">
+        <CalendarX className="h-10 w-10 text-muted-foreground" />
       </div>
+      <h2 className="text-2xl font-bold mb-2" data-testid="text-fixture-status">
+        {status === "postponed" ? "Match Postponed" : "Match Cancelled"}
+      </h2>
+      <p className="text-muted-foreground max-w-md">
+        {status === "postponed"
+          ? `${match.homeTeam.name} vs ${match.awayTeam.name} has been taken off the schedule. Both teams will be notified once a new date is set.`
+          : `${match.homeTeam.name} vs ${match.awayTeam.name} will not be played and does not count towards the standings.`}
+      </p>
     </div>
   );
 }
@@ -270,17 +362,20 @@ function WaitingScreen({ match }: { match: MatchData["match"] }) {
 function MatchResults({ 
   match, 
   state,
-  playerScores 
+  playerScores,
+  onViewReport
 }: { 
   match: MatchData["match"]; 
   state: MatchState;
   playerScores: Record<string, number>;
+  onViewReport?: () => void;
 }) {
   const winner = state.homeScore > state.awayScore 
     ? match.homeTeam.name 
     : state.awayScore > state.homeScore 
       ? match.awayTeam.name 
       : "Draw";
+  const byForfeit = !!state.forfeitedBy && winner !== "Draw";
 
   return (
     <div className="max-w-2xl mx-auto p-6 space-y-8">
@@ -288,7 +383,7 @@ function MatchResults({
         <Trophy className="h-16 w-16 mx-auto mb-4 text-yellow-500" />
         <h2 className="text-3xl font-bold mb-2">Match Complete!</h2>
         <p className="text-lg text-muted-foreground">
-          {winner === "Draw" ? "It's a draw!" : `${winner} wins!`}
+          {winner === "Draw" ? "It's a draw!" : byForfeit ? `${winner} wins by forfeit` : `${winner} wins!`}
         </p>
       </div>
 
@@ -320,6 +415,15 @@ function MatchResults({
           isUserTeam={false}
         />
       </div>
+
+      {onViewReport && (
+        <div className="text-center">
+          <Button variant="outline" onClick={onViewReport} data-testid="button-view-report">
+            <BarChart3 className="h-4 w-4 mr-2" />
+            View Match Report
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -329,62 +433,135 @@ export default function MatchPage() {
   const [, setLocation] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
+  // /watch/:id is the public read-only view of the same match
+  const [isWatchRoute] = useRoute("/watch/:id");
   
   const [isConnected, setIsConnected] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [isSpectator, setIsSpectator] = useState(isWatchRoute);
+  const [canLockIn, setCanLockIn] = useState(false);
+  const [lobby, setLobby] = useState<MatchLobby | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  // An answer has been sent and the server has not accepted or rejected it yet
+  const answerPendingRef = useRef(false);
   const [matchState, setMatchState] = useState<MatchState>({
     currentQuestionIndex: 0,
-    timeRemaining: 30,
+    totalQuestions: 0,
+    currentQuestion: null,
+    timeRemaining: 0,
     selectedAnswer: null,
     hasAnswered: false,
+    isLocked: false,
+    revealedAnswer: null,
+    isTieBreaker: false,
+    answerMode: "individual",
+    teamProposals: {},
     homeScore: 0,
     awayScore: 0,
+    playerScores: {},
     status: "waiting",
+    forfeitedBy: null,
+    isPaused: false,
   });
 
   const { data: matchData, isLoading } = useQuery<MatchData>({
-    queryKey: ["/api/matches", id],
+    queryKey: [isWatchRoute ? "/api/public/matches" : "/api/matches", id],
     enabled: !!id,
   });
 
   useEffect(() => {
-    if (!id) return;
+    if (matchData) {
+      setMatchState(prev => ({
+        ...prev,
+        playerScores: matchData.playerScores,
+        forfeitedBy: matchData.match.forfeitedBy,
+      }));
+    }
+  }, [matchData]);
 
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    const socket = new WebSocket(wsUrl);
+  useEffect(() => {
+    if (!id) return;
 
-    socket.onopen = () => {
-      setIsConnected(true);
-      socket.send(JSON.stringify({ type: "join_match", matchId: id, userId: user?.id }));
-    };
+    let socket: WebSocket;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
 
-    socket.onmessage = (event) => {
+    const handleMessage = (event: MessageEvent) => {
       try {
         const message = JSON.parse(event.data);
         
         switch (message.type) {
           case "match_state":
+            // Sent on every (re)join with a full snapshot of the live question
             setMatchState(prev => ({
               ...prev,
               status: message.status,
               currentQuestionIndex: message.currentQuestion || 0,
+              totalQuestions: message.totalQuestions || prev.totalQuestions,
+              timeRemaining: message.timeRemaining || 0,
               homeScore: message.homeScore || 0,
               awayScore: message.awayScore || 0,
+              answerMode: message.answerMode || prev.answerMode,
+              playerScores: message.playerScores || prev.playerScores,
+              isPaused: !!message.paused,
+              ...(message.question && {
+                currentQuestion: message.question,
+                selectedAnswer: message.myAnswer ?? message.teamProposals?.[user?.id ?? ""] ?? null,
+                hasAnswered: !!message.myAnswer,
+                isLocked: message.phase === "locked" || message.phase === "reveal",
+                revealedAnswer: message.revealedAnswer,
+                teamProposals: message.teamProposals || {},
+                isTieBreaker: !!message.tieBreaker,
+              }),
             }));
             break;
           case "question_released":
+            answerPendingRef.current = false;
             setMatchState(prev => ({
               ...prev,
+              status: "live",
               currentQuestionIndex: message.questionIndex,
+              totalQuestions: message.totalQuestions,
+              currentQuestion: message.question,
               timeRemaining: message.timeLimit || 30,
               selectedAnswer: null,
               hasAnswered: false,
+              isLocked: false,
+              revealedAnswer: null,
+              isTieBreaker: !!message.tieBreaker,
+              teamProposals: {},
             }));
             break;
           case "timer_tick":
             setMatchState(prev => ({ ...prev, timeRemaining: message.remaining }));
             break;
+          case "question_locked":
+            setMatchState(prev => ({ ...prev, isLocked: true, timeRemaining: 0 }));
+            break;
+          case "answer_reveal":
+            setMatchState(prev => ({ ...prev, isLocked: true, revealedAnswer: message.correctAnswer }));
+            break;
+          case "joined":
+            setIsSpectator(isWatchRoute || message.role === "spectator");
+            setCanLockIn(!!message.canLockIn);
+            break;
+          case "answer_proposed":
+            setMatchState(prev => ({ ...prev, teamProposals: message.proposals }));
+            break;
+          case "team_answer_locked":
+            setMatchState(prev => ({ ...prev, selectedAnswer: message.answer, hasAnswered: true }));
+            break;
+          case "error":
+            // A rejected answer (too late, paused, not the captain...) must not leave the player locked out
+            if (answerPendingRef.current) {
+              answerPendingRef.current = false;
+              setMatchState(prev => ({ ...prev, hasAnswered: false }));
+            }
+            toast({ title: "Match error", description: message.message, variant: "destructive" });
+            break;
           case "answer_result":
+            answerPendingRef.current = false;
             setMatchState(prev => ({ ...prev, hasAnswered: true }));
             break;
           case "score_update":
@@ -392,14 +569,37 @@ export default function MatchPage() {
               ...prev,
               homeScore: message.homeScore,
               awayScore: message.awayScore,
+              playerScores: message.playerScores || prev.playerScores,
             }));
             break;
+          case "match_paused":
+            setMatchState(prev => ({ ...prev, isPaused: true, timeRemaining: message.remaining }));
+            break;
+          case "match_resumed":
+            setMatchState(prev => ({ ...prev, isPaused: false, timeRemaining: message.remaining }));
+            break;
+          case "time_extended":
+            setMatchState(prev => ({ ...prev, timeRemaining: message.remaining }));
+            toast({ title: "Extra time added" });
+            break;
+          case "question_voided":
+            toast({ title: "Question voided", description: "Scores have been recalculated." });
+            break;
+          case "lobby_update":
+            setLobby(message.lobby);
+            break;
+          case "fixture_changed":
+            // Postponed, cancelled or moved by an admin before kick-off
+            setMatchState(prev => ({ ...prev, status: message.status }));
+            queryClient.invalidateQueries({ queryKey: [isWatchRoute ? "/api/public/matches" : "/api/matches", id] });
+            break;
           case "match_complete":
             setMatchState(prev => ({
               ...prev,
-              status: "completed",
+              status: message.status ?? "completed",
               homeScore: message.homeScore,
               awayScore: message.awayScore,
+              forfeitedBy: message.forfeitedBy ?? prev.forfeitedBy,
             }));
             break;
         }
@@ -408,30 +608,97 @@ export default function MatchPage() {
       }
     };
 
-    socket.onclose = () => {
-      setIsConnected(false);
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setIsConnected(true);
+        setIsReconnecting(false);
+        socket.send(JSON.stringify({ type: "join_match", matchId: id }));
+      };
+
+      socket.onmessage = handleMessage;
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (disposed) return;
+
+        // Exponential backoff; the rejoin snapshot restores the match state
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempts, RECONNECT_MAX_DELAY_MS);
+        attempts++;
+        setIsReconnecting(true);
+        retryTimer = setTimeout(connect, delay);
+      };
+
+      socket.onerror = () => {
+        setIsConnected(false);
+        if (attempts === 0) {
+          toast({ 
+            title: "Connection error", 
+            description: "Lost connection to match server, reconnecting...", 
+            variant: "destructive" 
+          });
+        }
+      };
     };
 
-    socket.onerror = () => {
-      setIsConnected(false);
-      toast({ 
-        title: "Connection error", 
-        description: "Failed to connect to match server", 
-        variant: "destructive" 
-      });
-    };
+    connect();
 
     return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socketRef.current = null;
       socket.close();
     };
-  }, [id, user?.id, toast]);
+  }, [id, user?.id, isWatchRoute, toast]);
 
   const handleAnswer = useCallback((answer: string) => {
-    setMatchState(prev => ({ ...prev, selectedAnswer: answer, hasAnswered: true }));
-  }, []);
+    const socket = socketRef.current;
+    const question = matchState.currentQuestion;
+    if (!socket || socket.readyState !== WebSocket.OPEN || !question || isSpectator) return;
+
+    // In team mode picking an option only proposes it to teammates
+    const teamMode = matchState.answerMode === "team";
+    socket.send(JSON.stringify({
+      type: teamMode ? "propose_answer" : "submit_answer",
+      matchId: id,
+      questionId: question.id,
+      answer,
+    }));
+    // Locked until the server replies so the answer cannot be sent twice
+    answerPendingRef.current = !teamMode;
+    setMatchState(prev => ({ ...prev, selectedAnswer: answer, hasAnswered: !teamMode }));
+  }, [id, isSpectator, matchState.currentQuestion, matchState.answerMode]);
+
+  const handleLockIn = useCallback(() => {
+    const socket = socketRef.current;
+    const question = matchState.currentQuestion;
+    const answer = matchState.selectedAnswer;
+    if (!socket || socket.readyState !== WebSocket.OPEN || !question || !answer) return;
+
+    socket.send(JSON.stringify({
+      type: "submit_answer",
+      matchId: id,
+      questionId: question.id,
+      answer,
+    }));
+    answerPendingRef.current = true;
+    setMatchState(prev => ({ ...prev, hasAnswered: true }));
+  }, [id, matchState.currentQuestion, matchState.selectedAnswer]);
+
+  const isReady = !!user && !!lobby && Object.values(lobby.teams).some(t => t.ready.includes(user.id));
+
+  const handleToggleReady = useCallback(() => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({ type: "set_ready", matchId: id, ready: !isReady }));
+  }, [id, isReady]);
 
   const handleLeave = () => {
-    setLocation("/dashboard");
+    setLocation(user ? "/dashboard" : "/");
   };
 
   if (isLoading || !matchData) {
@@ -443,7 +710,7 @@ export default function MatchPage() {
     );
   }
 
-  const currentQuestion = matchData.questions[matchState.currentQuestionIndex];
+  const currentQuestion = matchState.currentQuestion;
 
   return (
     <div className="min-h-screen bg-background">
@@ -451,11 +718,17 @@ export default function MatchPage() {
         match={matchData.match} 
         state={matchState}
         isConnected={isConnected}
+        isReconnecting={isReconnecting}
         onLeave={handleLeave}
       />
 
       {matchState.status === "waiting" && (
-        <WaitingScreen match={matchData.match} />
+        <WaitingScreen
+          match={matchData.match}
+          lobby={lobby}
+          isReady={isReady}
+          onToggleReady={isSpectator ? undefined : handleToggleReady}
+        />
       )}
 
       {matchState.status === "live" && currentQuestion && (
@@ -464,32 +737,43 @@ export default function MatchPage() {
             <QuestionDisplay
               question={currentQuestion}
               questionNumber={matchState.currentQuestionIndex + 1}
-              totalQuestions={matchData.questions.length}
+              totalQuestions={matchState.totalQuestions}
               selectedAnswer={matchState.selectedAnswer}
               hasAnswered={matchState.hasAnswered}
+              isLocked={matchState.isLocked}
+              revealedAnswer={matchState.revealedAnswer}
+              isTieBreaker={matchState.isTieBreaker}
+              isSpectator={isSpectator}
+              teamProposals={matchState.answerMode === "team" ? matchState.teamProposals : null}
+              onLockIn={matchState.answerMode === "team" && canLockIn ? handleLockIn : undefined}
               onAnswer={handleAnswer}
             />
           </div>
           <div className="lg:w-80 space-y-4">
             <TeamScoreboard 
               team={matchData.match.homeTeam} 
-              playerScores={matchData.playerScores}
+              playerScores={matchState.playerScores}
               isUserTeam={matchData.userTeamId === matchData.match.homeTeamId}
             />
             <TeamScoreboard 
               team={matchData.match.awayTeam} 
-              playerScores={matchData.playerScores}
+              playerScores={matchState.playerScores}
               isUserTeam={matchData.userTeamId === matchData.match.awayTeamId}
             />
           </div>
         </div>
       )}
 
-      {matchState.status === "completed" && (
+      {(matchState.status === "postponed" || matchState.status === "cancelled") && (
+        <FixtureNotice match={matchData.match} status={matchState.status} />
+      )}
+
+      {(matchState.status === "completed" || matchState.status === "forfeited") && (
         <MatchResults 
           match={matchData.match} 
           state={matchState}
-          playerScores={matchData.playerScores}
+          playerScores={matchState.playerScores}
+          onViewReport={isWatchRoute || matchState.status === "forfeited" ? undefined : () => setLocation(`/match/${id}/report`)}
         />
       )}
     </div>
@@ -9,6 +9,7 @@ import {
   Play,
   Clock,
   CheckCircle,
+  XCircle,
   Trophy,
   AlertCircle
 } from "lucide-react";
@@ -22,18 +23,29 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { AnswerExplanation } from "@/components/answer-explanation";
+import { QuestionAnswer } from "@/components/question-answer";
+import { RichContent } from "@/components/rich-content";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Team, PracticeSession, Question } from "@shared/schema";
+import { formatAnswer } from "@shared/question-types";
+import type { Team, PracticeSession, PublicQuestion, QuestionReference } from "@shared/schema";
 
 interface TeamWithTokens extends Team {
   memberCount: number;
 }
 
-interface PracticeQuestion extends Question {
+interface PracticeQuestion extends PublicQuestion {
   userAnswer?: string;
 }
 
+interface PracticeAnswerResult {
+  isCorrect: boolean;
+  correctAnswer: string;
+  explanation: string | null;
+  references: QuestionReference[];
+}
+
 interface ActivePractice {
   session: PracticeSession;
   questions: PracticeQuestion[];
@@ -227,6 +239,9 @@ function PracticeQuestion({
   timeRemaining,
   onAnswer,
   selectedAnswer,
+  disabled,
+  review,
+  onNext,
 }: {
   question: PracticeQuestion;
   currentIndex: number;
@@ -234,13 +249,11 @@ function PracticeQuestion({
   timeRemaining: number;
   onAnswer: (answer: string) => void;
   selectedAnswer?: string;
+  disabled: boolean;
+  review: PracticeAnswerResult | null;
+  onNext: () => void;
 }) {
-  const options = [
-    { key: "A", value: question.optionA },
-    { key: "B", value: question.optionB },
-    { key: "C", value: question.optionC },
-    { key: "D", value: question.optionD },
-  ];
+  const isLast = currentIndex + 1 >= totalQuestions;
 
   return (
     <div className="space-y-6">
@@ -258,35 +271,46 @@ function PracticeQuestion({
 
       <Card>
         <CardContent className="p-6">
-          <p className="text-lg font-medium mb-6">{question.questionText}</p>
+          <RichContent text={question.questionText} className="text-lg font-medium mb-6" />
           
-          <div className="space-y-3">
-            {options.map((option) => (
-              <button
-                key={option.key}
-                onClick={() => onAnswer(option.key)}
-                className={`w-full p-4 rounded-md border text-left transition-colors ${
-                  selectedAnswer === option.key
-                    ? "border-primary bg-primary/10"
-                    : "hover-elevate"
-                }`}
-                data-testid={`option-${option.key}`}
-              >
-                <div className="flex items-center gap-3">
-                  <span className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
-                    selectedAnswer === option.key
-                      ? "bg-primary text-primary-foreground"
-                      : "bg-muted"
-                  }`}>
-                    {option.key}
-                  </span>
-                  <span>{option.value}</span>
-                </div>
-              </button>
-            ))}
-          </div>
+          <QuestionAnswer
+            payload={question.payload}
+            selectedAnswer={selectedAnswer ?? null}
+            revealedAnswer={review?.correctAnswer ?? null}
+            disabled={disabled || review !== null}
+            onAnswer={onAnswer}
+          />
         </CardContent>
       </Card>
+
+      {review && (
+        <Card data-testid="practice-review">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center gap-2">
+              {review.isCorrect ? (
+                <CheckCircle className="h-5 w-5 text-green-500" />
+              ) : (
+                <XCircle className="h-5 w-5 text-destructive" />
+              )}
+              <span className="font-semibold" data-testid="text-review-result">
+                {review.isCorrect ? "Correct!" : "Incorrect"}
+              </span>
+            </div>
+            {!review.isCorrect && (
+              <p className="text-sm">
+                Correct answer:{" "}
+                <span className="font-medium">{formatAnswer(question.payload, review.correctAnswer)}</span>
+              </p>
+            )}
+            <AnswerExplanation explanation={review.explanation} references={review.references} />
+            <div className="flex justify-end">
+              <Button onClick={onNext} data-testid="button-next-question">
+                {isLast ? "Finish Practice" : "Next Question"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -295,6 +319,7 @@ export default function PracticePage() {
   const [practiceDialogOpen, setPracticeDialogOpen] = useState(false);
   const [activePractice, setActivePractice] = useState<ActivePractice | null>(null);
   const [selectedAnswer, setSelectedAnswer] = useState<string | undefined>();
+  const [review, setReview] = useState<PracticeAnswerResult | null>(null);
   const { toast } = useToast();
 
   const { data: practiceData, isLoading } = useQuery<{
@@ -331,25 +356,10 @@ export default function PracticePage() {
         questionId,
         answer,
       });
-      return res.json();
+      return res.json() as Promise<PracticeAnswerResult>;
     },
-    onSuccess: () => {
-      if (activePractice) {
-        const nextIndex = activePractice.currentIndex + 1;
-        if (nextIndex < activePractice.questions.length) {
-          setActivePractice({
-            ...activePractice,
-            currentIndex: nextIndex,
-            timeRemaining: activePractice.questions[nextIndex].timeLimit || 30,
-          });
-          setSelectedAnswer(undefined);
-        } else {
-          toast({ title: "Practice complete!", description: "Great job! Check your results." });
-          setActivePractice(null);
-          setSelectedAnswer(undefined);
-          queryClient.invalidateQueries({ queryKey: ["/api/practice"] });
-        }
-      }
+    onSuccess: (result) => {
+      setReview(result);
     },
     onError: (error: Error) => {
       toast({ title: "Failed to submit answer", description: error.message, variant: "destructive" });
@@ -360,6 +370,26 @@ export default function PracticePage() {
     startPracticeMutation.mutate({ teamId, type });
   };
 
+  // Moves on once the player has read the review of their answer
+  const handleNext = () => {
+    if (!activePractice) return;
+    setReview(null);
+    setSelectedAnswer(undefined);
+
+    const nextIndex = activePractice.currentIndex + 1;
+    if (nextIndex < activePractice.questions.length) {
+      setActivePractice({
+        ...activePractice,
+        currentIndex: nextIndex,
+        timeRemaining: activePractice.questions[nextIndex].timeLimit || 30,
+      });
+    } else {
+      toast({ title: "Practice complete!", description: "Great job! Check your results." });
+      setActivePractice(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/practice"] });
+    }
+  };
+
   const handleAnswer = (answer: string) => {
     setSelectedAnswer(answer);
     if (activePractice) {
@@ -379,6 +409,9 @@ export default function PracticePage() {
           timeRemaining={activePractice.timeRemaining}
           onAnswer={handleAnswer}
           selectedAnswer={selectedAnswer}
+          disabled={submitAnswerMutation.isPending}
+          review={review}
+          onNext={handleNext}
         />
       </div>
     );
@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv, restoreFormulaCell, toCsv } from "./csv";
+
+test("quoted cells keep their commas, quotes and line breaks; a byte order mark and blank lines are dropped", () => {
+  const text = '\uFEFFa,b\r\n"1,5","say ""hi""\nthere"\r\n\r\n';
+  assert.deepEqual(parseCsv(text), [["a", "b"], ["1,5", 'say "hi"\nthere']]);
+});
+
+test("cells a spreadsheet would run as formulas are exported as text and read back unchanged", () => {
+  const csv = toCsv(["text", "note"], [["=HYPERLINK(\"x\")", "-5 degrees"], ["@home", "plain"]]);
+  assert.equal(csv, `text,note\r\n"'=HYPERLINK(""x"")",'-5 degrees\r\n'@home,plain\r\n`);
+
+  const cells = parseCsv(csv).slice(1).flat().map(restoreFormulaCell);
+  assert.deepEqual(cells, ["=HYPERLINK(\"x\")", "-5 degrees", "@home", "plain"]);
+  // Only the guard's own apostrophe is removed
+  assert.equal(restoreFormulaCell("'tis the season"), "'tis the season");
+});
@@ -0,0 +1,91 @@
+import type { Match } from "@shared/schema";
+import { storage } from "./storage";
+import { notifyMatchTeams } from "./notifications";
+
+// A fixture can only be moved or decided off the field before it kicks off;
+// from then on it is handled through the live match controls
+export const UNPLAYED_STATUSES: Match["status"][] = ["waiting", "postponed"];
+
+async function describeMatch(match: Match): Promise<string> {
+  const homeTeam = await storage.getTeam(match.homeTeamId);
+  const awayTeam = await storage.getTeam(match.awayTeamId);
+  return `${homeTeam?.name ?? "Home team"} vs ${awayTeam?.name ?? "Away team"}`;
+}
+
+function withReason(message: string, reason?: string): string {
+  return reason ? `${message} Reason: ${reason}` : message;
+}
+
+// Moves a waiting or postponed match to a new kick-off and reopens it for the scheduler
+export async function rescheduleMatch(match: Match, scheduledAt: Date, reason?: string): Promise<Match | undefined> {
+  const updated = await storage.transitionMatch(match.id, UNPLAYED_STATUSES, {
+    status: "waiting",
+    scheduledAt,
+    lobbyOpenedAt: null,
+  });
+  if (!updated) return undefined;
+
+  await notifyMatchTeams(updated, {
+    type: "match_rescheduled",
+    title: "Match rescheduled",
+    message: withReason(`${await describeMatch(updated)} now kicks off at ${scheduledAt.toUTCString()}.`, reason),
+  });
+  return updated;
+}
+
+// Takes a match off the schedule until an admin gives it a new kick-off
+export async function postponeMatch(match: Match, reason?: string): Promise<Match | undefined> {
+  const updated = await storage.transitionMatch(match.id, "waiting", {
+    status: "postponed",
+    lobbyOpenedAt: null,
+  });
+  if (!updated) return undefined;
+
+  await notifyMatchTeams(updated, {
+    type: "match_postponed",
+    title: "Match postponed",
+    message: withReason(`${await describeMatch(updated)} has been postponed. A new date will follow.`, reason),
+  });
+  return updated;
+}
+
+// Cancelled matches are never played and do not count towards the standings
+export async function cancelMatch(match: Match, reason?: string): Promise<Match | undefined> {
+  const updated = await storage.transitionMatch(match.id, UNPLAYED_STATUSES, { status: "cancelled" });
+  if (!updated) return undefined;
+
+  await notifyMatchTeams(updated, {
+    type: "match_cancelled",
+    title: "Match cancelled",
+    message: withReason(`${await describeMatch(updated)} has been cancelled.`, reason),
+  });
+  return updated;
+}
+
+// Awards the match to the other side using the competition's forfeit score.
+// Used both for no-shows and for walkovers recorded by an admin
+export async function forfeitMatch(match: Match, forfeitingTeamId: string, reason?: string): Promise<Match | undefined> {
+  const competition = await storage.getCompetition(match.competitionId);
+  const winScore = competition?.forfeitWinScore ?? 1;
+  const homeForfeits = forfeitingTeamId === match.homeTeamId;
+
+  const updated = await storage.transitionMatch(match.id, UNPLAYED_STATUSES, {
+    status: "forfeited",
+    completedAt: new Date(),
+    forfeitedBy: forfeitingTeamId,
+    homeScore: homeForfeits ? 0 : winScore,
+    awayScore: homeForfeits ? winScore : 0,
+  });
+  if (!updated) return undefined;
+
+  const winner = await storage.getTeam(homeForfeits ? match.awayTeamId : match.homeTeamId);
+  await notifyMatchTeams(updated, {
+    type: "match_forfeited",
+    title: "Match decided by forfeit",
+    message: withReason(
+      `${await describeMatch(updated)} was awarded to ${winner?.name ?? "the opposition"} ${updated.homeScore}-${updated.awayScore} without being played.`,
+      reason
+    ),
+  });
+  return updated;
+}
@@ -0,0 +1,139 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Match } from "@shared/schema";
+import { storage, isUniqueViolation } from "./storage";
+import {
+  advanceKnockoutWinner, generateFixtures, knockoutAmendmentError, knockoutFirstRound, knockoutSeedOrder,
+  reresolveKnockoutWinner, roundRobinPairings,
+} from "./fixtures";
+
+test("round robin pairs every team once per leg", () => {
+  const teams = ["a", "b", "c", "d"];
+  const pairings = roundRobinPairings(teams);
+  assert.equal(pairings.length, 6);
+  assert.equal(Math.max(...pairings.map(p => p.round)), 3);
+
+  const meetings = new Set(pairings.map(p => [p.homeTeamId, p.awayTeamId].sort().join("-")));
+  assert.equal(meetings.size, 6);
+  for (let round = 1; round <= 3; round++) {
+    const playing = pairings.filter(p => p.round === round).flatMap(p => [p.homeTeamId, p.awayTeamId]);
+    assert.deepEqual([...playing].sort(), teams);
+  }
+});
+
+test("odd team counts give one team a bye each round", () => {
+  const pairings = roundRobinPairings(["a", "b", "c"]);
+  assert.equal(pairings.length, 3);
+  assert.equal(Math.max(...pairings.map(p => p.round)), 3);
+});
+
+test("the return leg swaps home and away", () => {
+  const pairings = roundRobinPairings(["a", "b"], true);
+  assert.deepEqual(pairings, [
+    { round: 1, homeTeamId: "a", awayTeamId: "b" },
+    { round: 2, homeTeamId: "b", awayTeamId: "a" },
+  ]);
+});
+
+test("knockout seeding keeps the top seeds apart and gives them the byes", () => {
+  assert.deepEqual(knockoutSeedOrder(8), [1, 8, 4, 5, 2, 7, 3, 6]);
+  assert.deepEqual(knockoutFirstRound(["a", "b", "c"]), [
+    { position: 0, homeTeamId: "a", awayTeamId: null },
+    { position: 1, homeTeamId: "b", awayTeamId: "c" },
+  ]);
+});
+
+async function knockoutCompetition(teamCount: number) {
+  const user = await storage.createUser({
+    username: `organiser${teamCount}`, email: `organiser${teamCount}@example.com`, password: "secret",
+  });
+  const competition = await storage.createCompetition({
+    name: `Cup of ${teamCount}`,
+    registrationFee: "10",
+    startDate: new Date("2026-01-01"),
+    endDate: new Date("2026-01-31"),
+    registrationDeadline: new Date("2025-12-31"),
+  });
+  const teams = [];
+  for (let i = 0; i < teamCount; i++) {
+    const team = await storage.createTeam({ name: `Team ${teamCount}-${i + 1}`, createdBy: user.id });
+    await storage.registerTeam({ competitionId: competition.id, teamId: team.id, paidBy: user.id });
+    teams.push(team);
+  }
+  return { competition, teams };
+}
+
+async function finish(match: Match, homeScore: number, awayScore: number): Promise<Match> {
+  const completed = (await storage.updateMatch(match.id, { status: "completed", homeScore, awayScore }))!;
+  await advanceKnockoutWinner(completed);
+  return completed;
+}
+
+test("generating a knockout bracket creates the first round and advances byes", async () => {
+  const { competition } = await knockoutCompetition(3);
+  const created = await generateFixtures(competition, "knockout");
+  assert.equal(created.length, 1);
+
+  const slots = await storage.getBracketSlots(competition.id);
+  assert.equal(slots.length, 3);
+  const final = slots.find(s => s.round === 2)!;
+  // The top seed's bye already put them into the final
+  assert.ok(final.homeTeamId);
+  assert.equal(final.matchId, null);
+});
+
+test("knockout winners move into the next round's match", async () => {
+  const { competition, teams } = await knockoutCompetition(4);
+  const [first, second] = await generateFixtures(competition, "knockout");
+
+  await finish(first, 3, 1);
+  assert.equal((await storage.getMatchesByCompetition(competition.id)).length, 2);
+
+  await finish(second, 0, 2);
+  const final = (await storage.getMatchesByCompetition(competition.id)).find(m => m.round === 2)!;
+  assert.deepEqual([final.homeTeamId, final.awayTeamId], [first.homeTeamId, second.awayTeamId]);
+  assert.ok(teams.some(t => t.id === final.homeTeamId));
+});
+
+test("forfeits send the other side through", async () => {
+  const { competition } = await knockoutCompetition(2);
+  const [match] = await generateFixtures(competition, "knockout");
+
+  const forfeited = (await storage.updateMatch(match.id, { status: "forfeited", forfeitedBy: match.homeTeamId }))!;
+  await advanceKnockoutWinner(forfeited);
+  const slot = await storage.getBracketSlotByMatch(match.id);
+  assert.equal(slot?.winnerTeamId, match.awayTeamId);
+});
+
+test("an amended result re-resolves the bracket until the next round starts", async () => {
+  const { competition } = await knockoutCompetition(4);
+  const [first, second] = await generateFixtures(competition, "knockout");
+  const decided = await finish(first, 3, 1);
+  await finish(second, 2, 0);
+  const final = (await storage.getMatchesByCompetition(competition.id)).find(m => m.round === 2)!;
+
+  const amended = (await storage.updateMatch(decided.id, { homeScore: 1, awayScore: 4 }))!;
+  assert.equal(await knockoutAmendmentError(amended), null);
+  await reresolveKnockoutWinner(amended);
+  assert.equal((await storage.getMatch(final.id))?.homeTeamId, first.awayTeamId);
+  assert.equal((await storage.getBracketSlotByMatch(first.id))?.winnerTeamId, first.awayTeamId);
+
+  await storage.updateMatch(final.id, { status: "live" });
+  assert.match(await knockoutAmendmentError(amended) ?? "", /already started/);
+});
+
+test("a second generation racing the first is turned away without duplicating fixtures", async () => {
+  for (const [teamCount, format] of [[5, "round_robin"], [6, "knockout"]] as const) {
+    const { competition } = await knockoutCompetition(teamCount);
+    const results = await Promise.allSettled([
+      generateFixtures(competition, format),
+      generateFixtures(competition, format),
+    ]);
+
+    const [won, lost] = results[0].status === "fulfilled" ? results : [results[1], results[0]];
+    assert.ok(won.status === "fulfilled");
+    assert.ok(lost.status === "rejected" && isUniqueViolation(lost.reason));
+    const matches = await storage.getMatchesByCompetition(competition.id);
+    assert.equal(matches.length, won.value.length);
+  }
+});
@@ -0,0 +1,255 @@
+import type { BracketSlot, Competition, Match } from "@shared/schema";
+import { storage } from "./storage";
+import { ensureMatchQuestions } from "./question-selection";
+
+export type FixtureFormat = Competition["format"];
+
+export interface FixturePairing {
+  round: number;
+  homeTeamId: string;
+  awayTeamId: string;
+}
+
+// Circle method: one team stays fixed while the rest rotate each round
+// Odd team counts get a bye slot, and pairings against it are dropped
+export function roundRobinPairings(teamIds: string[], homeAndAway = false): FixturePairing[] {
+  const slots: (string | null)[] = [...teamIds];
+  if (slots.length % 2 === 1) slots.push(null);
+
+  const roundsPerLeg = slots.length - 1;
+  const half = slots.length / 2;
+  const pairings: FixturePairing[] = [];
+
+  for (let round = 0; round < roundsPerLeg; round++) {
+    for (let i = 0; i < half; i++) {
+      const first = slots[i];
+      const second = slots[slots.length - 1 - i];
+      if (!first || !second) continue;
+
+      // The fixed team alternates home and away; the rotation balances everyone else
+      const swap = i === 0 ? round % 2 === 1 : false;
+      pairings.push({
+        round: round + 1,
+        homeTeamId: swap ? second : first,
+        awayTeamId: swap ? first : second,
+      });
+    }
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  if (homeAndAway) {
+    const returnLeg = pairings.map((p) => ({
+      round: p.round + roundsPerLeg,
+      homeTeamId: p.awayTeamId,
+      awayTeamId: p.homeTeamId,
+    }));
+    pairings.push(...returnLeg);
+  }
+
+  return pairings;
+}
+
+export function knockoutRoundCount(teamCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(teamCount, 2))));
+}
+
+// Standard seeding order so the top seeds can only meet in the later rounds,
+// e.g. [1, 8, 4, 5, 2, 7, 3, 6] for an eight-team bracket
+export function knockoutSeedOrder(bracketSize: number): number[] {
+  let order = [1];
+  while (order.length < bracketSize) {
+    const size = order.length * 2;
+    order = order.flatMap(seed => [seed, size + 1 - seed]);
+  }
+  return order;
+}
+
+export interface KnockoutPairing {
+  position: number;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+}
+
+// First-round slots of a single-elimination bracket. Teams are seeded in the
+// order given; seeds beyond the field size are byes and always face the top seeds
+export function knockoutFirstRound(teamIds: string[]): KnockoutPairing[] {
+  const order = knockoutSeedOrder(2 ** knockoutRoundCount(teamIds.length));
+  const pairings: KnockoutPairing[] = [];
+  for (let i = 0; i < order.length; i += 2) {
+    pairings.push({
+      position: i / 2,
+      homeTeamId: teamIds[order[i] - 1] ?? null,
+      awayTeamId: teamIds[order[i + 1] - 1] ?? null,
+    });
+  }
+  return pairings;
+}
+
+// Spreads rounds evenly between the competition's start and end dates
+export function roundDate(competition: Pick<Competition, "startDate" | "endDate">, round: number, totalRounds: number): Date {
+  const start = new Date(competition.startDate).getTime();
+  const end = new Date(competition.endDate).getTime();
+  if (totalRounds <= 1 || end <= start) return new Date(start);
+  const interval = (end - start) / (totalRounds - 1);
+  return new Date(start + interval * (round - 1));
+}
+
+async function createFixture(
+  competition: Competition,
+  pairing: FixturePairing,
+  totalRounds: number
+): Promise<Match> {
+  const match = await storage.createMatch({
+    competitionId: competition.id,
+    homeTeamId: pairing.homeTeamId,
+    awayTeamId: pairing.awayTeamId,
+    round: pairing.round,
+    scheduledAt: roundDate(competition, pairing.round, totalRounds),
+    status: "waiting",
+  });
+  await ensureMatchQuestions(match);
+  return match;
+}
+
+async function createSlotMatch(competition: Competition, slot: BracketSlot, totalRounds: number): Promise<Match> {
+  const match = await createFixture(competition, {
+    round: slot.round,
+    homeTeamId: slot.homeTeamId!,
+    awayTeamId: slot.awayTeamId!,
+  }, totalRounds);
+  await storage.updateBracketSlot(slot.id, { matchId: match.id });
+  return match;
+}
+
+// Records a slot's winner and moves them into the parent slot, creating the
+// parent's match once both of its feeders are decided
+export async function advanceBracketSlot(slot: BracketSlot, winnerTeamId: string): Promise<Match | undefined> {
+  await storage.updateBracketSlot(slot.id, { winnerTeamId });
+  if (!slot.parentSlotId) return undefined;
+
+  const competition = await storage.getCompetition(slot.competitionId);
+  const parent = await storage.updateBracketSlot(
+    slot.parentSlotId,
+    slot.parentSide === "home" ? { homeTeamId: winnerTeamId } : { awayTeamId: winnerTeamId }
+  );
+  if (!competition || !parent || !parent.homeTeamId || !parent.awayTeamId || parent.matchId) {
+    return undefined;
+  }
+
+  const slots = await storage.getBracketSlots(competition.id);
+  const totalRounds = Math.max(...slots.map(s => s.round));
+  return createSlotMatch(competition, parent, totalRounds);
+}
+
+async function createKnockoutBracket(competition: Competition, teamIds: string[]): Promise<Match[]> {
+  const totalRounds = knockoutRoundCount(teamIds.length);
+
+  // Build from the final down so every slot can point at its parent
+  let slots: BracketSlot[] = [
+    await storage.createBracketSlot({ competitionId: competition.id, round: totalRounds, position: 0 }),
+  ];
+  for (let round = totalRounds - 1; round >= 1; round--) {
+    const parents = slots;
+    slots = [];
+    for (let position = 0; position < parents.length * 2; position++) {
+      slots.push(await storage.createBracketSlot({
+        competitionId: competition.id,
+        round,
+        position,
+        parentSlotId: parents[Math.floor(position / 2)].id,
+        parentSide: position % 2 === 0 ? "home" : "away",
+      }));
+    }
+  }
+
+  const created: Match[] = [];
+  for (const pairing of knockoutFirstRound(teamIds)) {
+    const slot = await storage.updateBracketSlot(slots[pairing.position].id, {
+      homeTeamId: pairing.homeTeamId,
+      awayTeamId: pairing.awayTeamId,
+    });
+    if (!slot) continue;
+
+    if (slot.homeTeamId && slot.awayTeamId) {
+      created.push(await createSlotMatch(competition, slot, totalRounds));
+    } else {
+      const advanced = await advanceBracketSlot(slot, (slot.homeTeamId || slot.awayTeamId)!);
+      if (advanced) created.push(advanced);
+    }
+  }
+  return created;
+}
+
+export async function isKnockoutMatch(match: Match): Promise<boolean> {
+  return !!(await storage.getBracketSlotByMatch(match.id));
+}
+
+// Completion hook for knockout matches. A forfeit sends the other side through.
+// Sudden death normally settles ties; if the tie-breaker pool runs dry the
+// higher seed (home side) goes through
+function knockoutWinner(match: Match): string {
+  return match.forfeitedBy
+    ? (match.forfeitedBy === match.homeTeamId ? match.awayTeamId : match.homeTeamId)
+    : match.awayScore > match.homeScore ? match.awayTeamId : match.homeTeamId;
+}
+
+export async function advanceKnockoutWinner(match: Match): Promise<void> {
+  const slot = await storage.getBracketSlotByMatch(match.id);
+  if (!slot) return;
+  await advanceBracketSlot(slot, knockoutWinner(match));
+}
+
+// A knockout result can only be amended until the match it feeds gets under way,
+// after that the next round has been played by whoever went through
+export async function knockoutAmendmentError(match: Match): Promise<string | null> {
+  const slot = await storage.getBracketSlotByMatch(match.id);
+  const parent = slot?.parentSlotId ? await storage.getBracketSlot(slot.parentSlotId) : undefined;
+  const next = parent?.matchId ? await storage.getMatch(parent.matchId) : undefined;
+  if (next && (next.status === "live" || next.status === "completed" || next.status === "forfeited")) {
+    return "The next knockout round has already started, so this result can no longer change";
+  }
+  return null;
+}
+
+// Re-runs the bracket after an amended knockout result. If the winner changed,
+// they replace the old winner in the parent slot and in its match if one exists
+export async function reresolveKnockoutWinner(match: Match): Promise<void> {
+  const slot = await storage.getBracketSlotByMatch(match.id);
+  if (!slot) return;
+  const winnerTeamId = knockoutWinner(match);
+  if (slot.winnerTeamId === winnerTeamId) return;
+
+  await advanceBracketSlot(slot, winnerTeamId);
+  const parent = slot.parentSlotId ? await storage.getBracketSlot(slot.parentSlotId) : undefined;
+  if (parent?.matchId) {
+    await storage.updateMatch(
+      parent.matchId,
+      slot.parentSide === "home" ? { homeTeamId: winnerTeamId } : { awayTeamId: winnerTeamId }
+    );
+  }
+}
+
+export async function generateFixtures(competition: Competition, format: FixtureFormat): Promise<Match[]> {
+  const registrations = await storage.getRegisteredTeams(competition.id);
+  const teamIds = [...registrations]
+    .sort((a, b) => new Date(a.registeredAt).getTime() - new Date(b.registeredAt).getTime())
+    .map(r => r.teamId);
+  if (teamIds.length < 2) throw new Error("At least two registered teams are required");
+
+  let created: Match[] = [];
+  if (format === "knockout") {
+    created = await createKnockoutBracket(competition, teamIds);
+  } else {
+    const pairings = roundRobinPairings(teamIds, format === "double_round_robin");
+    const totalRounds = Math.max(...pairings.map(p => p.round));
+    for (const pairing of pairings) {
+      created.push(await createFixture(competition, pairing, totalRounds));
+    }
+  }
+
+  if (competition.format !== format) {
+    await storage.updateCompetition(competition.id, { format });
+  }
+
+  return created;
+}
@@ -14,6 +14,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // Bulk question imports send whole files as JSON
+    limit: "10mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
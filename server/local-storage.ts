@@ -2,10 +2,18 @@ import {
   type User, type InsertUser, type Team, type InsertTeam, 
   type TeamMember, type InsertTeamMember, type Competition, type InsertCompetition,
   type CompetitionRegistration, type InsertCompetitionRegistration,
-  type Match, type InsertMatch, type Question, type InsertQuestion,
+  type Match, type InsertMatch, type MatchQuestion, type InsertMatchQuestion,
+  type BracketSlot, type InsertBracketSlot,
+  type LiveMatchStateRecord, type InsertLiveMatchState, type MatchPresence, type InsertMatchPresence,
+  type AnswerProposal, type InsertAnswerProposal,
+  type ScoreAdjustment, type InsertScoreAdjustment, type MatchAuditEntry, type InsertMatchAuditEntry,
+  type Notification, type InsertNotification,
+  type Question, type InsertQuestion, type QuestionFilters, type QuestionSearch, type QuestionPage,
+  type QuestionRevision, type QuestionRevisionContent, toRevisionContent,
   type PlayerAnswer, type InsertPlayerAnswer, type Standing, type InsertStanding,
   type TokenTransaction, type InsertTokenTransaction, type Payment, type InsertPayment,
-  type PracticeSession, type InsertPracticeSession, type TeamInvitation, type InsertTeamInvitation
+  type PracticeSession, type InsertPracticeSession, type TeamInvitation, type InsertTeamInvitation,
+  defaultScoringRules
 } from "@shared/schema";
 import { type IStorage } from "./storage";
 
@@ -14,6 +22,12 @@ function generateId(): string {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 }
 
+// Raised where the adapter mirrors a database unique constraint, with Postgres'
+// unique_violation code so callers handle both stores the same way
+function uniqueViolation(constraint: string): Error {
+  return Object.assign(new Error(`duplicate key value violates unique constraint "${constraint}"`), { code: "23505" });
+}
+
 interface LocalData {
   users: Record<string, User>;
   teams: Record<string, Team>;
@@ -21,9 +35,18 @@ interface LocalData {
   competitions: Record<string, Competition>;
   competitionRegistrations: Record<string, CompetitionRegistration>;
   matches: Record<string, Match>;
+  matchQuestions: Record<string, MatchQuestion>;
+  bracketSlots: Record<string, BracketSlot>;
+  liveMatchStates: Record<string, LiveMatchStateRecord>;
+  matchPresence: Record<string, MatchPresence>;
+  answerProposals: Record<string, AnswerProposal>;
   questions: Record<string, Question>;
+  questionRevisions: Record<string, QuestionRevision>;
   playerAnswers: Record<string, PlayerAnswer>;
   standings: Record<string, Standing>;
+  scoreAdjustments: Record<string, ScoreAdjustment>;
+  matchAuditLog: Record<string, MatchAuditEntry>;
+  notifications: Record<string, Notification>;
   tokenTransactions: Record<string, TokenTransaction>;
   payments: Record<string, Payment>;
   practiceSessions: Record<string, PracticeSession>;
@@ -38,9 +61,18 @@ export class LocalStorageAdapter implements IStorage {
     competitions: {},
     competitionRegistrations: {},
     matches: {},
+    matchQuestions: {},
+    bracketSlots: {},
+    liveMatchStates: {},
+    matchPresence: {},
+    answerProposals: {},
     questions: {},
+    questionRevisions: {},
     playerAnswers: {},
     standings: {},
+    scoreAdjustments: {},
+    matchAuditLog: {},
+    notifications: {},
     tokenTransactions: {},
     payments: {},
     practiceSessions: {},
@@ -129,6 +161,7 @@ export class LocalStorageAdapter implements IStorage {
   // Team Members
   async addTeamMember(member: InsertTeamMember): Promise<TeamMember> {
     const newMember: TeamMember = {
+      isCaptain: false,
       ...member,
       id: generateId(),
       joinedAt: new Date(),
@@ -171,6 +204,14 @@ export class LocalStorageAdapter implements IStorage {
 
   async createCompetition(competition: InsertCompetition): Promise<Competition> {
     const newComp: Competition = {
+      format: "round_robin",
+      winPoints: 3,
+      drawPoints: 1,
+      lossPoints: 0,
+      minReadyPlayers: 1,
+      forfeitWinScore: 1,
+      answerMode: "individual",
+      scoringRules: defaultScoringRules,
       ...competition,
       id: generateId(),
       createdAt: new Date(),
@@ -224,18 +265,26 @@ export class LocalStorageAdapter implements IStorage {
 
   async getUpcomingMatchesForTeam(teamId: string): Promise<Match[]> {
     return Object.values(this.data.matches)
-      .filter(m => (m.homeTeamId === teamId || m.awayTeamId === teamId) && m.status === "waiting")
+      .filter(m => (m.homeTeamId === teamId || m.awayTeamId === teamId) && (m.status === "waiting" || m.status === "postponed"))
       .sort((a, b) => (a.scheduledAt?.getTime() || 0) - (b.scheduledAt?.getTime() || 0));
   }
 
   async createMatch(match: InsertMatch): Promise<Match> {
+    const duplicate = Object.values(this.data.matches).some(m =>
+      m.competitionId === match.competitionId && m.round === match.round &&
+      m.homeTeamId === match.homeTeamId && m.awayTeamId === match.awayTeamId
+    );
+    if (duplicate) throw uniqueViolation("matches_competition_round_teams");
+
     const newMatch: Match = {
       ...match,
       id: generateId(),
       homeScore: 0,
       awayScore: 0,
+      lobbyOpenedAt: null,
       startedAt: null,
       completedAt: null,
+      forfeitedBy: null,
     } as unknown as Match;
     this.data.matches[newMatch.id] = newMatch;
     return newMatch;
@@ -249,6 +298,19 @@ export class LocalStorageAdapter implements IStorage {
     return updated;
   }
 
+  async transitionMatch(id: string, from: Match["status"] | Match["status"][], data: Partial<Match>): Promise<Match | undefined> {
+    const match = this.data.matches[id];
+    const statuses = Array.isArray(from) ? from : [from];
+    if (!match || !statuses.includes(match.status)) return undefined;
+    return this.updateMatch(id, data);
+  }
+
+  async getWaitingMatchesScheduledBefore(before: Date): Promise<Match[]> {
+    return Object.values(this.data.matches)
+      .filter(m => m.status === "waiting" && new Date(m.scheduledAt) <= before)
+      .sort((a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime());
+  }
+
   async getMatchWithTeams(id: string): Promise<(Match & { homeTeam: Team; awayTeam: Team }) | undefined> {
     const match = this.data.matches[id];
     if (!match) return undefined;
@@ -261,39 +323,335 @@ export class LocalStorageAdapter implements IStorage {
     return { ...match, homeTeam, awayTeam } as any;
   }
 
+  // Match Questions
+  async getMatchQuestions(matchId: string): Promise<Question[]> {
+    return Object.values(this.data.matchQuestions)
+      .filter(mq => mq.matchId === matchId)
+      .sort((a, b) => a.questionOrder - b.questionOrder)
+      .map((mq) => {
+        const question = this.data.questions[mq.questionId];
+        const pinned = Object.values(this.data.questionRevisions)
+          .find(r => r.questionId === mq.questionId && r.revision === mq.questionRevision);
+        return question && pinned ? { ...question, ...pinned.content, revision: pinned.revision } : question;
+      })
+      .filter(Boolean);
+  }
+
+  async createMatchQuestions(rows: InsertMatchQuestion[]): Promise<MatchQuestion[]> {
+    return rows.map(row => {
+      const matchQuestion: MatchQuestion = {
+        isTieBreaker: false,
+        questionRevision: null,
+        voided: false,
+        ...row,
+        id: generateId(),
+      } as unknown as MatchQuestion;
+      this.data.matchQuestions[matchQuestion.id] = matchQuestion;
+      return matchQuestion;
+    });
+  }
+
+  async pinMatchQuestionRevision(matchId: string, questionId: string, revision: number): Promise<void> {
+    Object.values(this.data.matchQuestions)
+      .filter(mq => mq.matchId === matchId && mq.questionId === questionId)
+      .forEach(mq => { mq.questionRevision = revision; });
+  }
+
+  async replaceMatchQuestion(matchId: string, questionId: string, replacement: Question): Promise<void> {
+    Object.values(this.data.matchQuestions)
+      .filter(mq => mq.matchId === matchId && mq.questionId === questionId)
+      .forEach(mq => {
+        mq.questionId = replacement.id;
+        mq.questionRevision = replacement.revision;
+      });
+  }
+
+  async voidMatchQuestion(matchId: string, questionId: string): Promise<boolean> {
+    const rows = Object.values(this.data.matchQuestions)
+      .filter(mq => mq.matchId === matchId && mq.questionId === questionId);
+    rows.forEach(mq => { mq.voided = true; });
+    return rows.length > 0;
+  }
+
+  async getVoidedQuestionIds(matchId: string): Promise<string[]> {
+    return Object.values(this.data.matchQuestions)
+      .filter(mq => mq.matchId === matchId && mq.voided)
+      .map(mq => mq.questionId);
+  }
+
+  // Bracket Slots
+  async getBracketSlots(competitionId: string): Promise<BracketSlot[]> {
+    return Object.values(this.data.bracketSlots)
+      .filter(s => s.competitionId === competitionId)
+      .sort((a, b) => a.round - b.round || a.position - b.position);
+  }
+
+  async getBracketSlot(id: string): Promise<BracketSlot | undefined> {
+    return this.data.bracketSlots[id];
+  }
+
+  async getBracketSlotByMatch(matchId: string): Promise<BracketSlot | undefined> {
+    return Object.values(this.data.bracketSlots).find(s => s.matchId === matchId);
+  }
+
+  async createBracketSlot(slot: InsertBracketSlot): Promise<BracketSlot> {
+    const duplicate = Object.values(this.data.bracketSlots).some(s =>
+      s.competitionId === slot.competitionId && s.round === slot.round && s.position === slot.position
+    );
+    if (duplicate) throw uniqueViolation("bracket_slots_competition_round_position");
+
+    const newSlot: BracketSlot = {
+      matchId: null,
+      homeTeamId: null,
+      awayTeamId: null,
+      winnerTeamId: null,
+      parentSlotId: null,
+      parentSide: null,
+      ...slot,
+      id: generateId(),
+    } as unknown as BracketSlot;
+    this.data.bracketSlots[newSlot.id] = newSlot;
+    return newSlot;
+  }
+
+  async updateBracketSlot(id: string, data: Partial<BracketSlot>): Promise<BracketSlot | undefined> {
+    const slot = this.data.bracketSlots[id];
+    if (!slot) return undefined;
+    const updated = { ...slot, ...data };
+    this.data.bracketSlots[id] = updated;
+    return updated;
+  }
+
+  // Live Match States
+  async getLiveMatchState(matchId: string): Promise<LiveMatchStateRecord | undefined> {
+    return this.data.liveMatchStates[matchId];
+  }
+
+  async saveLiveMatchState(record: InsertLiveMatchState): Promise<LiveMatchStateRecord> {
+    const saved: LiveMatchStateRecord = {
+      ...record,
+      heartbeatAt: record.heartbeatAt ?? new Date(),
+    };
+    this.data.liveMatchStates[saved.matchId] = saved;
+    return saved;
+  }
+
+  async deleteLiveMatchState(matchId: string): Promise<void> {
+    delete this.data.liveMatchStates[matchId];
+  }
+
+  async touchLiveMatchStates(ownerId: string): Promise<void> {
+    for (const record of Object.values(this.data.liveMatchStates)) {
+      if (record.ownerId === ownerId) record.heartbeatAt = new Date();
+    }
+  }
+
+  async getStaleLiveMatchStates(staleBefore: Date): Promise<LiveMatchStateRecord[]> {
+    return Object.values(this.data.liveMatchStates).filter(r => r.heartbeatAt < staleBefore);
+  }
+
+  async claimLiveMatchState(matchId: string, ownerId: string, staleBefore: Date): Promise<LiveMatchStateRecord | undefined> {
+    const record = this.data.liveMatchStates[matchId];
+    if (!record || record.heartbeatAt >= staleBefore) return undefined;
+    const claimed = { ...record, ownerId, heartbeatAt: new Date() };
+    this.data.liveMatchStates[matchId] = claimed;
+    return claimed;
+  }
+
+  // Match Presence
+  async saveMatchPresence(presence: InsertMatchPresence): Promise<void> {
+    const key = `${presence.matchId}:${presence.userId}`;
+    const isReady = this.data.matchPresence[key]?.isReady ?? false;
+    this.data.matchPresence[key] = { isReady, ...presence, lastSeenAt: new Date() };
+  }
+
+  async deleteMatchPresence(matchId: string, userId: string): Promise<void> {
+    delete this.data.matchPresence[`${matchId}:${userId}`];
+  }
+
+  async touchMatchPresence(instanceId: string): Promise<void> {
+    for (const presence of Object.values(this.data.matchPresence)) {
+      if (presence.instanceId === instanceId) presence.lastSeenAt = new Date();
+    }
+  }
+
+  async setMatchPresenceReady(matchId: string, userId: string, isReady: boolean): Promise<MatchPresence | undefined> {
+    const presence = this.data.matchPresence[`${matchId}:${userId}`];
+    if (!presence) return undefined;
+    presence.isReady = isReady;
+    presence.lastSeenAt = new Date();
+    return presence;
+  }
+
+  async getMatchPresence(matchId: string, seenAfter: Date): Promise<MatchPresence[]> {
+    return Object.values(this.data.matchPresence)
+      .filter(p => p.matchId === matchId && p.lastSeenAt > seenAfter);
+  }
+
+  // Answer Proposals
+  async saveAnswerProposal(proposal: InsertAnswerProposal): Promise<void> {
+    const key = `${proposal.matchId}:${proposal.questionId}:${proposal.userId}`;
+    this.data.answerProposals[key] = { ...proposal, updatedAt: new Date() };
+  }
+
+  async getAnswerProposals(matchId: string, questionId: string, teamId: string): Promise<AnswerProposal[]> {
+    return Object.values(this.data.answerProposals)
+      .filter(p => p.matchId === matchId && p.questionId === questionId && p.teamId === teamId);
+  }
+
+  async deleteAnswerProposals(matchId: string): Promise<void> {
+    for (const [key, proposal] of Object.entries(this.data.answerProposals)) {
+      if (proposal.matchId === matchId) delete this.data.answerProposals[key];
+    }
+  }
+
   // Questions
   async getQuestion(id: string): Promise<Question | undefined> {
     return this.data.questions[id];
   }
 
   async getQuestionsByMode(mode: "competition" | "practice", limit = 20): Promise<Question[]> {
-    const filtered = Object.values(this.data.questions).filter(q => q.mode === mode);
+    const filtered = Object.values(this.data.questions).filter(q => q.mode === mode && !q.archivedAt);
     return filtered.sort(() => Math.random() - 0.5).slice(0, limit);
   }
 
   async getQuestionsByCompetition(competitionId: string): Promise<Question[]> {
-    return Object.values(this.data.questions).filter(q => q.competitionId === competitionId);
+    return Object.values(this.data.questions).filter(q => q.competitionId === competitionId && !q.archivedAt);
   }
 
-  async createQuestion(question: InsertQuestion): Promise<Question> {
+  async createQuestion(question: InsertQuestion, editedBy: string | null = null): Promise<Question> {
     const newQuestion: Question = {
+      competitionId: null,
+      type: "multiple_choice",
+      payload: null,
+      explanation: null,
+      references: [],
+      difficulty: "medium",
+      timeLimit: 30,
       ...question,
       id: generateId(),
+      revision: 1,
+      archivedAt: null,
       createdAt: new Date(),
     } as unknown as Question;
     this.data.questions[newQuestion.id] = newQuestion;
+    this.addRevision(newQuestion, editedBy);
     return newQuestion;
   }
 
+  async createQuestions(rows: InsertQuestion[], editedBy: string | null = null): Promise<Question[]> {
+    const created: Question[] = [];
+    for (const row of rows) {
+      created.push(await this.createQuestion(row, editedBy));
+    }
+    return created;
+  }
+
+  private addRevision(question: Question, editedBy: string | null, createdAt = new Date()) {
+    const revision: QuestionRevision = {
+      id: generateId(),
+      questionId: question.id,
+      revision: question.revision,
+      content: toRevisionContent(question),
+      editedBy,
+      createdAt,
+    };
+    this.data.questionRevisions[revision.id] = revision;
+  }
+
+  async reviseQuestion(id: string, data: Partial<QuestionRevisionContent>, editedBy: string): Promise<Question | undefined> {
+    const question = this.data.questions[id];
+    if (!question) return undefined;
+    const revisions = await this.getQuestionRevisions(id);
+    if (!revisions.some(r => r.revision === question.revision)) {
+      this.addRevision(question, null, question.createdAt);
+    }
+
+    const updated = { ...question, ...data, revision: question.revision + 1 };
+    this.data.questions[id] = updated;
+    this.addRevision(updated, editedBy);
+    return updated;
+  }
+
+  async getQuestionRevisions(questionId: string): Promise<QuestionRevision[]> {
+    return Object.values(this.data.questionRevisions)
+      .filter(r => r.questionId === questionId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  async updateQuestion(id: string, data: Partial<Question>): Promise<Question | undefined> {
+    const question = this.data.questions[id];
+    if (!question) return undefined;
+    const updated = { ...question, ...data };
+    this.data.questions[id] = updated;
+    return updated;
+  }
+
+  async deleteQuestion(id: string): Promise<void> {
+    delete this.data.questions[id];
+    for (const revision of await this.getQuestionRevisions(id)) {
+      delete this.data.questionRevisions[revision.id];
+    }
+  }
+
+  async isQuestionInUse(id: string): Promise<boolean> {
+    return Object.values(this.data.matchQuestions).some(mq => mq.questionId === id)
+      || Object.values(this.data.playerAnswers).some(a => a.questionId === id);
+  }
+
   async getAllQuestions(): Promise<Question[]> {
-    return Object.values(this.data.questions).sort(
-      (a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)
-    );
+    return Object.values(this.data.questions)
+      .filter(q => !q.archivedAt)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async searchQuestions(filters: QuestionSearch): Promise<QuestionPage> {
+    const matching = await this.findQuestions(filters);
+    const start = (filters.page - 1) * filters.pageSize;
+    return {
+      questions: matching.slice(start, start + filters.pageSize),
+      total: matching.length,
+      page: filters.page,
+      pageSize: filters.pageSize,
+    };
+  }
+
+  async findQuestions(filters: QuestionFilters): Promise<Question[]> {
+    const search = filters.search?.toLowerCase();
+    return Object.values(this.data.questions)
+      .filter(q => !search || q.questionText.toLowerCase().includes(search) || q.subject.toLowerCase().includes(search))
+      .filter(q => !filters.subject || q.subject === filters.subject)
+      .filter(q => !filters.difficulty || q.difficulty === filters.difficulty)
+      .filter(q => !filters.mode || q.mode === filters.mode)
+      .filter(q => !filters.competitionId
+        || (filters.competitionId === "shared" ? !q.competitionId : q.competitionId === filters.competitionId))
+      .filter(q => filters.status === "all" || (filters.status === "archived" ? !!q.archivedAt : !q.archivedAt))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async getQuestionSubjects(): Promise<string[]> {
+    return Array.from(new Set(Object.values(this.data.questions).map(q => q.subject))).sort();
+  }
+
+  async getQuestionTexts(): Promise<string[]> {
+    return Object.values(this.data.questions).map(q => q.questionText);
   }
 
   // Player Answers
-  async submitAnswer(answer: InsertPlayerAnswer): Promise<PlayerAnswer> {
+  async submitAnswer(answer: InsertPlayerAnswer): Promise<PlayerAnswer | undefined> {
+    // Mirrors the unique (matchId, questionId, userId) and team lock-in constraints in the database
+    const existing = Object.values(this.data.playerAnswers).find(a =>
+      a.matchId === answer.matchId && a.questionId === answer.questionId && (
+        a.userId === answer.userId || (!!answer.lockedTeamId && a.lockedTeamId === answer.lockedTeamId)
+      )
+    );
+    if (existing) return undefined;
+
     const newAnswer: PlayerAnswer = {
+      points: 0,
+      questionRevision: null,
+      lockedTeamId: null,
+      isCaptain: null,
       ...answer,
       id: generateId(),
       answeredAt: new Date(),
@@ -302,22 +660,106 @@ export class LocalStorageAdapter implements IStorage {
     return newAnswer;
   }
 
+  async updatePlayerAnswer(id: string, data: Partial<PlayerAnswer>): Promise<PlayerAnswer | undefined> {
+    const answer = this.data.playerAnswers[id];
+    if (!answer) return undefined;
+    const updated = { ...answer, ...data };
+    this.data.playerAnswers[id] = updated;
+    return updated;
+  }
+
   async getAnswersByMatch(matchId: string): Promise<PlayerAnswer[]> {
     return Object.values(this.data.playerAnswers).filter(a => a.matchId === matchId);
   }
 
+  async getAnswersByQuestion(questionId: string): Promise<PlayerAnswer[]> {
+    return Object.values(this.data.playerAnswers).filter(a => a.questionId === questionId);
+  }
+
   async getPlayerScoresByMatch(matchId: string): Promise<Record<string, number>> {
     const answers = await this.getAnswersByMatch(matchId);
     const scores: Record<string, number> = {};
 
     for (const answer of answers) {
-      if (!scores[answer.userId]) scores[answer.userId] = 0;
-      if (answer.isCorrect) scores[answer.userId]++;
+      scores[answer.userId] = (scores[answer.userId] || 0) + answer.points;
     }
 
     return scores;
   }
 
+  // Score Adjustments
+  async createScoreAdjustment(adjustment: InsertScoreAdjustment): Promise<ScoreAdjustment> {
+    const created: ScoreAdjustment = {
+      ...adjustment,
+      id: generateId(),
+      createdAt: new Date(),
+    } as unknown as ScoreAdjustment;
+    this.data.scoreAdjustments[created.id] = created;
+    return created;
+  }
+
+  async getScoreAdjustments(matchId: string): Promise<ScoreAdjustment[]> {
+    return Object.values(this.data.scoreAdjustments)
+      .filter(a => a.matchId === matchId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Match Audit Log
+  async createMatchAuditEntry(entry: InsertMatchAuditEntry): Promise<MatchAuditEntry> {
+    const created: MatchAuditEntry = {
+      details: {},
+      ...entry,
+      id: generateId(),
+      createdAt: new Date(),
+    } as unknown as MatchAuditEntry;
+    this.data.matchAuditLog[created.id] = created;
+    return created;
+  }
+
+  async getMatchAuditLog(matchId: string): Promise<MatchAuditEntry[]> {
+    return Object.values(this.data.matchAuditLog)
+      .filter(e => e.matchId === matchId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Notifications
+  async createNotifications(rows: InsertNotification[]): Promise<Notification[]> {
+    return rows.map((row) => {
+      const created: Notification = {
+        matchId: null,
+        ...row,
+        id: generateId(),
+        readAt: null,
+        createdAt: new Date(),
+      } as unknown as Notification;
+      this.data.notifications[created.id] = created;
+      return created;
+    });
+  }
+
+  async getNotificationsByUser(userId: string, limit: number = 50): Promise<Notification[]> {
+    return Object.values(this.data.notifications)
+      .filter(n => n.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const notification = this.data.notifications[id];
+    if (!notification || notification.userId !== userId) return undefined;
+    const updated = { ...notification, readAt: new Date() };
+    this.data.notifications[id] = updated;
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    for (const notification of Object.values(this.data.notifications)) {
+      if (notification.userId === userId && !notification.readAt) {
+        this.data.notifications[notification.id] = { ...notification, readAt: new Date() };
+      }
+    }
+  }
+
   // Standings
   async getStandingsByCompetition(competitionId: string): Promise<Standing[]> {
     return Object.values(this.data.standings)
@@ -479,7 +921,7 @@ export class LocalStorageAdapter implements IStorage {
 
     if (teamIds.length > 0) {
       const allMatches = Object.values(this.data.matches)
-        .filter(m => (teamIds.includes(m.homeTeamId) || teamIds.includes(m.awayTeamId)) && m.status === "waiting")
+        .filter(m => (teamIds.includes(m.homeTeamId) || teamIds.includes(m.awayTeamId)) && (m.status === "waiting" || m.status === "postponed"))
         .sort((a, b) => (a.scheduledAt?.getTime() || 0) - (b.scheduledAt?.getTime() || 0))
         .slice(0, 10);
 
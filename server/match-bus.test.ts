@@ -0,0 +1,57 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "events";
+import type { Pool } from "pg";
+import { InMemoryMatchBus, PostgresMatchBus, type MatchEnvelope } from "./match-bus";
+
+const envelope: MatchEnvelope = { matchId: "m1", message: { type: "timer_tick", remaining: 5 } };
+
+test("a throwing handler neither stops the others nor fails the publish", async () => {
+  const bus = new InMemoryMatchBus();
+  const delivered: MatchEnvelope[] = [];
+  await bus.subscribe(() => { throw new Error("socket gone"); });
+  await bus.subscribe(e => delivered.push(e));
+  const logged = mock.method(console, "error", () => {});
+
+  await bus.publish(envelope);
+  logged.mock.restore();
+  assert.deepEqual(delivered, [envelope]);
+  assert.equal(logged.mock.callCount(), 1);
+});
+
+// Pool whose listener connections fail LISTEN until told otherwise
+function fakePool() {
+  const clients: (EventEmitter & { released: boolean })[] = [];
+  let listenFails = true;
+  const pool = {
+    async connect() {
+      const client = Object.assign(new EventEmitter(), {
+        released: false,
+        async query() {
+          if (listenFails) throw new Error("LISTEN failed");
+          return { rows: [] };
+        },
+        release() {
+          client.released = true;
+        },
+      });
+      clients.push(client);
+      return client;
+    },
+  };
+  return { pool: pool as unknown as Pool, clients, listen: () => { listenFails = false; } };
+}
+
+test("a failed LISTEN is released and the next subscribe connects again", async () => {
+  const { pool, clients, listen } = fakePool();
+  const bus = new PostgresMatchBus(pool);
+
+  await assert.rejects(bus.subscribe(() => {}), /LISTEN failed/);
+  assert.equal(clients[0].released, true);
+
+  listen();
+  await bus.subscribe(() => {});
+  assert.equal(clients.length, 2);
+  assert.equal(clients[1].released, false);
+  await bus.close();
+});
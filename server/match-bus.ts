@@ -0,0 +1,158 @@
+import type { Pool, PoolClient } from "pg";
+import { pool } from "./db";
+
+export interface MatchEnvelope {
+  matchId: string;
+  message: any;
+  // When set only that team's sockets receive the message
+  teamId?: string;
+}
+
+type EnvelopeHandler = (envelope: MatchEnvelope) => void;
+
+// A failing handler is logged and skipped so the others, and the publisher, are unaffected
+function deliver(handlers: EnvelopeHandler[], envelope: MatchEnvelope) {
+  for (const handler of handlers) {
+    try {
+      handler(envelope);
+    } catch (error) {
+      console.error("Match bus handler failed:", error);
+    }
+  }
+}
+
+// Fans match messages out to every server instance; each instance then
+// delivers them to the sockets it holds locally
+export interface MatchBus {
+  publish(envelope: MatchEnvelope): Promise<void>;
+  subscribe(handler: EnvelopeHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Single-process bus, used when there is no database to coordinate through
+export class InMemoryMatchBus implements MatchBus {
+  private handlers: EnvelopeHandler[] = [];
+
+  async publish(envelope: MatchEnvelope): Promise<void> {
+    deliver(this.handlers, envelope);
+  }
+
+  async subscribe(handler: EnvelopeHandler): Promise<void> {
+    this.handlers.push(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers = [];
+  }
+}
+
+const CHANNEL = "match_events";
+const RECONNECT_DELAY_MS = 2000;
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_PAYLOAD_BYTES = 7999;
+// Larger messages are kept in match_bus_messages only long enough for every instance to read them
+const SPILLED_MESSAGE_TTL = "5 minutes";
+
+// What goes over NOTIFY: the envelope itself, or the id of its match_bus_messages row
+type Notification = MatchEnvelope | { ref: string };
+
+// Uses LISTEN/NOTIFY on the existing pool so instances behind a load
+// balancer see each other's broadcasts without extra infrastructure
+export class PostgresMatchBus implements MatchBus {
+  private handlers: EnvelopeHandler[] = [];
+  private listener?: PoolClient;
+  private closed = false;
+  // Spilled messages are read back asynchronously, so deliveries are chained to keep their order
+  private delivery: Promise<void> = Promise.resolve();
+
+  constructor(private pool: Pool) {}
+
+  async publish(envelope: MatchEnvelope): Promise<void> {
+    let payload = JSON.stringify(envelope);
+    if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      const { rows } = await this.pool.query<{ id: string }>(
+        "INSERT INTO match_bus_messages (envelope) VALUES ($1) RETURNING id",
+        [payload]
+      );
+      await this.pool.query(
+        `DELETE FROM match_bus_messages WHERE created_at < now() - interval '${SPILLED_MESSAGE_TTL}'`
+      );
+      payload = JSON.stringify({ ref: rows[0].id });
+    }
+    await this.pool.query("SELECT pg_notify($1, $2)", [CHANNEL, payload]);
+  }
+
+  async subscribe(handler: EnvelopeHandler): Promise<void> {
+    this.handlers.push(handler);
+    if (!this.listener) await this.listen();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.handlers = [];
+    this.listener?.release();
+    this.listener = undefined;
+  }
+
+  private async listen() {
+    const client = await this.pool.connect();
+    this.listener = client;
+
+    client.on("notification", (notification) => {
+      if (notification.channel !== CHANNEL || !notification.payload) return;
+      const payload = notification.payload;
+      this.delivery = this.delivery
+        .then(async () => {
+          const envelope = await this.readEnvelope(JSON.parse(payload));
+          if (envelope) deliver(this.handlers, envelope);
+        })
+        .catch((error) => console.error("Invalid match bus payload:", error));
+    });
+
+    // A dropped listener connection would silently stop delivery, so reconnect
+    client.on("error", (error) => {
+      console.error("Match bus listener error:", error);
+      if (this.dropListener(client)) this.reconnectLater();
+    });
+
+    try {
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      // Cleared so the next subscribe or reconnect starts over on a fresh connection
+      this.dropListener(client);
+      throw error;
+    }
+  }
+
+  // Releases a broken listener connection; false if it was already let go
+  private dropListener(client: PoolClient): boolean {
+    if (this.listener !== client) return false;
+    client.release(true);
+    this.listener = undefined;
+    return true;
+  }
+
+  private reconnectLater() {
+    if (this.closed) return;
+    setTimeout(() => {
+      if (this.listener || this.closed) return;
+      this.listen().catch((error) => {
+        console.error("Match bus reconnect failed:", error);
+        this.reconnectLater();
+      });
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async readEnvelope(notification: Notification): Promise<MatchEnvelope | undefined> {
+    if (!("ref" in notification)) return notification;
+    const { rows } = await this.pool.query<{ envelope: MatchEnvelope }>(
+      "SELECT envelope FROM match_bus_messages WHERE id = $1",
+      [notification.ref]
+    );
+    return rows[0]?.envelope;
+  }
+}
+
+export function createMatchBus(): MatchBus {
+  return pool ? new PostgresMatchBus(pool) : new InMemoryMatchBus();
+}
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Competition } from "@shared/schema";
+import { storage } from "./storage";
+import { MatchEngine } from "./match-engine";
+
+const QUESTION_SECONDS = 10;
+// The engine's lock and reveal pauses between questions
+const LOCK_MS = 1500;
+const REVEAL_MS = 5000;
+
+let broadcasts: { matchId: string; message: any; teamId?: string }[] = [];
+const engine = new MatchEngine((matchId, message, teamId) => broadcasts.push({ matchId, message, teamId }));
+
+beforeEach(() => {
+  broadcasts = [];
+  mock.timers.enable({ apis: ["setTimeout", "setInterval", "Date"], now: Date.now() });
+});
+
+afterEach(() => mock.timers.reset());
+
+// Lets the storage calls behind a fired timer finish
+async function settle() {
+  for (let i = 0; i < 20; i++) await new Promise(resolve => setImmediate(resolve));
+}
+
+async function advance(ms: number) {
+  mock.timers.tick(ms);
+  await settle();
+}
+
+let seeded = 0;
+
+async function waitingMatch(answerMode: Competition["answerMode"] = "individual") {
+  const n = ++seeded;
+  const user = (name: string) =>
+    storage.createUser({ username: `${name}${n}`, email: `${name}${n}@example.com`, password: "secret" });
+  const [owner, homePlayer, homeMate, awayPlayer] = [await user("owner"), await user("home"), await user("mate"), await user("away")];
+
+  const competition = await storage.createCompetition({
+    name: `Engine Cup ${n}`,
+    registrationFee: "0",
+    startDate: new Date(),
+    endDate: new Date(),
+    registrationDeadline: new Date(),
+    answerMode,
+  });
+  const home = await storage.createTeam({ name: `Engine Home ${n}`, createdBy: owner.id });
+  const away = await storage.createTeam({ name: `Engine Away ${n}`, createdBy: owner.id });
+  await storage.addTeamMember({ teamId: home.id, userId: homePlayer.id, isCaptain: true });
+  await storage.addTeamMember({ teamId: home.id, userId: homeMate.id });
+  await storage.addTeamMember({ teamId: away.id, userId: awayPlayer.id });
+
+  const questions = [];
+  for (const correctAnswer of ["A", "B"]) {
+    questions.push(await storage.createQuestion({
+      competitionId: competition.id, questionText: `Engine question ${questions.length + 1}`, optionA: "a", optionB: "b",
+      optionC: "c", optionD: "d", correctAnswer, subject: "s", difficulty: "easy", mode: "competition",
+      timeLimit: QUESTION_SECONDS,
+    }));
+  }
+  const match = await storage.createMatch({
+    competitionId: competition.id,
+    homeTeamId: home.id,
+    awayTeamId: away.id,
+    round: 1,
+    scheduledAt: new Date(),
+    status: "waiting",
+  });
+  await storage.createMatchQuestions(questions.map((q, i) => ({
+    matchId: match.id, questionId: q.id, questionRevision: q.revision, questionOrder: i + 1,
+  })));
+
+  return { match, questions, home, away, homePlayer, homeMate, awayPlayer, owner };
+}
+
+test("skip only takes back a question while it is open", async () => {
+  const { match, questions, owner } = await waitingMatch();
+  await engine.start(match.id);
+
+  await advance(QUESTION_SECONDS * 1000);
+  assert.equal((await engine.getSnapshot(match.id))?.phase, "locked");
+  assert.match(await engine.control(match.id, { action: "skip" }, owner.id) ?? "", /void it instead/);
+  assert.deepEqual(await storage.getVoidedQuestionIds(match.id), []);
+
+  await advance(LOCK_MS);
+  assert.match(await engine.control(match.id, { action: "skip" }, owner.id) ?? "", /void it instead/);
+  await advance(REVEAL_MS);
+  const snapshot = await engine.getSnapshot(match.id);
+  assert.deepEqual([snapshot?.phase, snapshot?.currentQuestion], ["question", 1]);
+  assert.equal(await engine.control(match.id, { action: "skip" }, owner.id), null);
+  assert.deepEqual(await storage.getVoidedQuestionIds(match.id), [questions[1].id]);
+  engine.stop(match.id);
+});
+
+test("each question is released, locked at its deadline and revealed until the match completes", async () => {
+  const { match, questions, home, homePlayer } = await waitingMatch();
+  await engine.start(match.id);
+  assert.deepEqual(broadcasts.map(b => b.message.type), ["match_state", "question_released"]);
+  assert.equal(broadcasts[1].message.deadline, Date.now() + QUESTION_SECONDS * 1000);
+
+  const result = await engine.submitAnswer(match.id, {
+    userId: homePlayer.id, teamId: home.id, questionId: questions[0].id, answer: "A",
+  });
+  assert.ok(result.accepted && result.isCorrect);
+
+  await advance(QUESTION_SECONDS * 1000);
+  assert.ok(broadcasts.some(b => b.message.type === "question_locked"));
+  await advance(LOCK_MS);
+  assert.equal(broadcasts.find(b => b.message.type === "answer_reveal")?.message.correctAnswer, "A");
+  await advance(REVEAL_MS);
+  assert.equal((await engine.getSnapshot(match.id))?.currentQuestion, 1);
+
+  await advance(QUESTION_SECONDS * 1000);
+  await advance(LOCK_MS);
+  await advance(REVEAL_MS);
+  const completed = await storage.getMatch(match.id);
+  assert.equal(completed?.status, "completed");
+  assert.ok(completed.homeScore > 0);
+  assert.equal(completed.awayScore, 0);
+  assert.equal(broadcasts[broadcasts.length - 1].message.type, "match_complete");
+  assert.equal(await storage.getLiveMatchState(match.id), undefined);
+});
+
+test("a player answers once, timed from the server's release, and not after the deadline", async () => {
+  const { match, questions, home, away, homePlayer, awayPlayer } = await waitingMatch();
+  await engine.start(match.id);
+  const answer = (userId: string, teamId: string, answer: string, questionId = questions[0].id) =>
+    engine.submitAnswer(match.id, { userId, teamId, questionId, answer });
+
+  await advance(3000);
+  const first = await answer(homePlayer.id, home.id, "B");
+  assert.ok(first.accepted);
+  assert.equal(first.timeTaken, 3000);
+  assert.deepEqual(await answer(homePlayer.id, home.id, "A"), {
+    accepted: false, reason: "You have already answered this question",
+  });
+  assert.deepEqual(await answer(awayPlayer.id, away.id, "A", questions[1].id), {
+    accepted: false, reason: "This question is no longer open",
+  });
+
+  await advance(QUESTION_SECONDS * 1000 - 3000);
+  assert.deepEqual(await answer(awayPlayer.id, away.id, "A"), {
+    accepted: false, reason: "Time is up for this question",
+  });
+  assert.equal((await storage.getAnswersByMatch(match.id)).length, 1);
+  engine.stop(match.id);
+});
+
+test("in team mode proposals stay within the team and only the captain locks in, once", async () => {
+  const { match, questions, home, away, homePlayer, homeMate } = await waitingMatch("team");
+  await engine.start(match.id);
+  const submission = (userId: string, answer: string) => ({ userId, teamId: home.id, questionId: questions[0].id, answer });
+
+  assert.equal(await engine.proposeAnswer(match.id, submission(homeMate.id, "B")), null);
+  const proposed = broadcasts.find(b => b.message.type === "answer_proposed");
+  assert.equal(proposed?.teamId, home.id);
+  assert.deepEqual(proposed?.message.proposals, { [homeMate.id]: "B" });
+  assert.deepEqual((await engine.getSnapshot(match.id, undefined, away.id))?.teamProposals, {});
+
+  assert.deepEqual(await engine.submitAnswer(match.id, submission(homeMate.id, "B")), {
+    accepted: false, reason: "Only the team captain can lock in the answer",
+  });
+  const locked = await engine.submitAnswer(match.id, submission(homePlayer.id, "A"));
+  assert.ok(locked.accepted && locked.isCorrect);
+  assert.equal(broadcasts.find(b => b.message.type === "team_answer_locked")?.teamId, home.id);
+
+  assert.deepEqual(await engine.submitAnswer(match.id, submission(homePlayer.id, "B")), {
+    accepted: false, reason: "Your team has already locked in an answer",
+  });
+  assert.equal(await engine.proposeAnswer(match.id, submission(homeMate.id, "C")), "Your team has already locked in an answer");
+  // The lock-in is every member's answer
+  assert.equal((await engine.getSnapshot(match.id, homeMate.id, home.id))?.myAnswer, "A");
+  engine.stop(match.id);
+});
+
+test("a rejoining player gets the open question, deadline, their answer and the scores", async () => {
+  const { match, questions, home, homePlayer } = await waitingMatch();
+  await engine.start(match.id);
+  const deadline = Date.now() + QUESTION_SECONDS * 1000;
+  await advance(4000);
+  await engine.submitAnswer(match.id, { userId: homePlayer.id, teamId: home.id, questionId: questions[0].id, answer: "A" });
+
+  // Any instance can serve the snapshot, not just the one running the match
+  for (const server of [engine, new MatchEngine(() => {})]) {
+    const snapshot = await server.getSnapshot(match.id, homePlayer.id, home.id);
+    assert.equal(snapshot?.phase, "question");
+    assert.equal(snapshot.question?.id, questions[0].id);
+    assert.ok(!("correctAnswer" in snapshot.question));
+    assert.equal(snapshot.revealedAnswer, null);
+    assert.equal(snapshot.questionDeadline, deadline);
+    assert.equal(snapshot.timeRemaining, QUESTION_SECONDS - 4);
+    assert.equal(snapshot.myAnswer, "A");
+    assert.ok(snapshot.homeScore > 0);
+    assert.equal(snapshot.playerScores[homePlayer.id], snapshot.homeScore);
+  }
+  engine.stop(match.id);
+});
+
+test("an admin on another instance takes the match over, and a pause keeps the time left", async () => {
+  const { match, questions, home, homePlayer, owner } = await waitingMatch();
+  await engine.start(match.id);
+  const otherBroadcasts: string[] = [];
+  const other = new MatchEngine((_, message) => otherBroadcasts.push(message.type));
+
+  await advance(4000);
+  assert.equal(await other.control(match.id, { action: "pause" }, owner.id), null);
+  assert.equal((await storage.getLiveMatchState(match.id))?.ownerId, other.instanceId);
+  assert.equal((await other.getSnapshot(match.id))?.timeRemaining, QUESTION_SECONDS - 4);
+
+  // The old owner's deadline passes without it locking the question
+  await advance(60 * 1000);
+  assert.equal((await other.getSnapshot(match.id))?.phase, "question");
+  assert.equal(await other.control(match.id, { action: "pause" }, owner.id), "Match is already paused");
+
+  assert.equal(await other.control(match.id, { action: "resume" }, owner.id), null);
+  await advance(1000);
+  const answered = await other.submitAnswer(match.id, {
+    userId: homePlayer.id, teamId: home.id, questionId: questions[0].id, answer: "A",
+  });
+  assert.ok(answered.accepted);
+  assert.equal(answered.timeTaken, 5000, "time spent paused is not counted");
+
+  await advance((QUESTION_SECONDS - 5) * 1000);
+  assert.equal((await other.getSnapshot(match.id))?.phase, "locked");
+  assert.ok(otherBroadcasts.includes("question_locked"));
+  assert.ok(!broadcasts.some(b => b.message.type === "question_locked"));
+  other.stop(match.id);
+});
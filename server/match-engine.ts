@@ -0,0 +1,742 @@
+import { randomUUID } from "crypto";
+import {
+  toPublicQuestion,
+  type Competition, type LiveMatchStateRecord, type Match, type MatchControl, type PersistedMatchState,
+  type PublicQuestion, type Question, type ScoringRules,
+} from "@shared/schema";
+import { answerFormatError, gradeAnswer, getAnswerKey } from "@shared/question-types";
+import { storage } from "./storage";
+import { refreshMatchQuestions, drawTieBreakerQuestion } from "./question-selection";
+import {
+  getScoringRules, getTeamCaptains, appliesCaptainMultiplier, scoreAnswer, tallyMatchScores,
+  getMatchScores, voidQuestion,
+} from "./scoring";
+
+export type MatchPhase = PersistedMatchState["phase"];
+
+export interface LiveMatchState {
+  status: "waiting" | "live" | "completed";
+  phase: MatchPhase;
+  currentQuestion: number;
+  totalQuestions: number;
+  homeScore: number;
+  awayScore: number;
+  timeRemaining: number;
+  questionDeadline: number | null;
+  tieBreaker: boolean;
+  paused: boolean;
+  answerMode: AnswerMode;
+}
+
+export type AnswerMode = Competition["answerMode"];
+
+// Everything a (re)joining client needs to render the match as it is right now
+export interface MatchSnapshot extends LiveMatchState {
+  question: PublicQuestion | null;
+  revealedAnswer: string | null;
+  myAnswer: string | null;
+  teamProposals: Record<string, string>;
+  playerScores: Record<string, number>;
+}
+
+export interface AnswerSubmission {
+  userId: string;
+  teamId: string;
+  questionId: string;
+  answer: string;
+}
+
+export type AnswerResult =
+  | { accepted: true; isCorrect: boolean; timeTaken: number; points: number }
+  | { accepted: false; reason: string };
+
+// When teamId is given the message only goes to that team's sockets
+type Broadcast = (matchId: string, message: any, teamId?: string) => void;
+
+interface MatchEngineHooks {
+  onComplete?: (match: Match) => Promise<void>;
+  needsTieBreaker?: (match: Match) => Promise<boolean>;
+}
+
+const LOCK_DURATION_MS = 1500;
+const REVEAL_DURATION_MS = 5000;
+const TICK_INTERVAL_MS = 1000;
+const MAX_TIE_BREAKERS = 10;
+const HEARTBEAT_INTERVAL_MS = 5000;
+// A match whose owner has not checked in for this long is taken over by another instance
+const STALE_AFTER_MS = 15000;
+
+interface LiveMatch {
+  match: Match;
+  questions: Question[];
+  competition?: Competition;
+  rules: ScoringRules;
+  captains: Map<string, string>;
+  state: LiveMatchState;
+  tieBreakersAsked: number;
+  questionReleasedAt: number;
+  phaseEndsAt: number | null;
+  pausedAt: number | null;
+  pausedRemainingMs: number | null;
+  timer?: NodeJS.Timeout;
+  ticker?: NodeJS.Timeout;
+}
+
+// Drives every live match from the server so all clients see the same
+// question, countdown and reveal at the same time.
+//
+// Each match is owned by one instance, which runs its timers. The state is
+// persisted after every transition so any instance can accept answers for
+// it, and a live match whose owner stops sending heartbeats is resumed by
+// whichever instance claims it first
+export class MatchEngine {
+  private live = new Map<string, LiveMatch>();
+  private heartbeat?: NodeJS.Timeout;
+
+  constructor(
+    private broadcast: Broadcast,
+    private hooks: MatchEngineHooks = {},
+    readonly instanceId: string = randomUUID()
+  ) {}
+
+  startHeartbeat() {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      this.checkIn().catch((error) => {
+        console.error("Match engine heartbeat failed:", error);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  stopHeartbeat() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+  }
+
+  async getSnapshot(matchId: string, userId?: string, teamId?: string): Promise<MatchSnapshot | undefined> {
+    const loaded = await this.load(matchId);
+    if (!loaded) return undefined;
+    const { entry } = loaded;
+
+    const state = { ...entry.state, timeRemaining: this.secondsRemaining(entry) };
+    const question = state.phase === "waiting" ? undefined : entry.questions[state.currentQuestion];
+    const answers = await storage.getAnswersByMatch(matchId);
+    const adjustments = await storage.getScoreAdjustments(matchId);
+    const { playerScores, homeScore, awayScore } = tallyMatchScores(answers, entry.match, adjustments);
+
+    // In team mode the team's locked-in answer counts as the player's own
+    const mine = question && answers.find(a => a.questionId === question.id && (
+      (!!userId && a.userId === userId) || (state.answerMode === "team" && !!teamId && a.teamId === teamId)
+    ));
+    const proposals = teamId && question ? await this.teamProposals(matchId, question.id, teamId) : {};
+
+    return {
+      ...state,
+      homeScore,
+      awayScore,
+      question: question ? toPublicQuestion(question) : null,
+      revealedAnswer: question && state.phase === "reveal" ? getAnswerKey(question) : null,
+      myAnswer: mine?.answer ?? null,
+      teamProposals: proposals,
+      playerScores,
+    };
+  }
+
+  async start(matchId: string): Promise<void> {
+    if (this.live.has(matchId) || await storage.getLiveMatchState(matchId)) return;
+
+    const match = await storage.getMatch(matchId);
+    if (!match) throw new Error("Match not found");
+
+    const questions = await refreshMatchQuestions(match);
+    if (questions.length === 0) throw new Error("No competition questions available");
+
+    const competition = await storage.getCompetition(match.competitionId);
+    const captains = await getTeamCaptains(match);
+
+    // Conditional so a match started by an admin and the scheduler at once only starts once
+    const started = await storage.transitionMatch(matchId, "waiting", {
+      status: "live",
+      startedAt: new Date(),
+      homeScore: 0,
+      awayScore: 0,
+    });
+    if (!started) return;
+
+    const entry: LiveMatch = {
+      match: started,
+      questions,
+      competition,
+      rules: getScoringRules(competition),
+      captains,
+      state: {
+        status: "live",
+        phase: "waiting",
+        currentQuestion: 0,
+        totalQuestions: questions.length,
+        homeScore: 0,
+        awayScore: 0,
+        timeRemaining: 0,
+        questionDeadline: null,
+        tieBreaker: false,
+        paused: false,
+        answerMode: competition?.answerMode ?? "individual",
+      },
+      tieBreakersAsked: 0,
+      questionReleasedAt: 0,
+      phaseEndsAt: null,
+      pausedAt: null,
+      pausedRemainingMs: null,
+    };
+    this.live.set(matchId, entry);
+    await this.persist(entry);
+
+    this.broadcast(matchId, { type: "match_state", ...entry.state });
+    await this.releaseQuestion(entry, 0);
+  }
+
+  async submitAnswer(matchId: string, submission: AnswerSubmission): Promise<AnswerResult> {
+    const entry = (await this.load(matchId))?.entry;
+    if (!entry) return { accepted: false, reason: "Match is not live" };
+
+    const rejection = this.checkOpen(entry, submission.questionId);
+    if (rejection) return { accepted: false, reason: rejection };
+
+    const teamMode = entry.state.answerMode === "team";
+    if (teamMode) {
+      const captainId = entry.captains.get(submission.teamId);
+      if (captainId && captainId !== submission.userId) {
+        return { accepted: false, reason: "Only the team captain can lock in the answer" };
+      }
+    }
+
+    const question = entry.questions[entry.state.currentQuestion];
+    const formatError = answerFormatError(question, submission.answer);
+    if (formatError) return { accepted: false, reason: formatError };
+
+    // Timing is measured against the server's release time, never the client's clock
+    const isCorrect = gradeAnswer(question, submission.answer);
+    const timeTaken = Date.now() - entry.questionReleasedAt;
+    const isCaptain = appliesCaptainMultiplier(entry.competition, entry.captains, submission);
+    const points = scoreAnswer({ isCorrect, timeTaken }, question, entry.rules, isCaptain);
+
+    const saved = await storage.submitAnswer({
+      matchId,
+      questionId: question.id,
+      userId: submission.userId,
+      teamId: submission.teamId,
+      answer: submission.answer,
+      isCorrect,
+      timeTaken,
+      points,
+      questionRevision: question.revision,
+      // The storage constraint on this lets only one lock-in per team through, whichever instance takes it
+      lockedTeamId: teamMode ? submission.teamId : null,
+      isCaptain,
+    });
+    if (!saved) {
+      return {
+        accepted: false,
+        reason: teamMode ? "Your team has already locked in an answer" : "You have already answered this question",
+      };
+    }
+
+    if (teamMode) {
+      this.broadcast(matchId, {
+        type: "team_answer_locked",
+        questionId: question.id,
+        userId: submission.userId,
+        answer: submission.answer,
+      }, submission.teamId);
+    }
+
+    await this.recalculateScores(entry);
+    return { accepted: true, isCorrect, timeTaken, points };
+  }
+
+  // Team mode: shares a member's tentative answer with their teammates only
+  async proposeAnswer(matchId: string, submission: AnswerSubmission): Promise<string | null> {
+    const loaded = await this.load(matchId);
+    if (!loaded) return "Match is not live";
+    const { entry } = loaded;
+    if (entry.state.answerMode !== "team") return "Answer proposals are only used in team answer mode";
+
+    const rejection = this.checkOpen(entry, submission.questionId);
+    if (rejection) return rejection;
+    if (await this.teamHasAnswered(entry, submission)) return "Your team has already locked in an answer";
+
+    await storage.saveAnswerProposal({
+      matchId,
+      questionId: submission.questionId,
+      teamId: submission.teamId,
+      userId: submission.userId,
+      answer: submission.answer,
+    });
+    const teamProposals = await this.teamProposals(matchId, submission.questionId, submission.teamId);
+
+    this.broadcast(matchId, {
+      type: "answer_proposed",
+      questionId: submission.questionId,
+      userId: submission.userId,
+      answer: submission.answer,
+      proposals: teamProposals,
+    }, submission.teamId);
+    return null;
+  }
+
+  // Applies an admin command to a live match. The instance handling the
+  // command takes the match over so its timers change in one place
+  async control(matchId: string, command: MatchControl, adminId: string): Promise<string | null> {
+    const entry = await this.takeOver(matchId);
+    if (!entry) return "Match is not live";
+
+    switch (command.action) {
+      case "pause":
+        return this.pause(entry);
+      case "resume":
+        return this.resume(entry);
+      case "extend":
+        return this.extend(entry, command.seconds);
+      case "skip":
+        return this.skip(entry);
+      case "void":
+        return this.voidAsked(entry, command.questionId);
+      case "adjust_score":
+        if (command.teamId !== entry.match.homeTeamId && command.teamId !== entry.match.awayTeamId) {
+          return "Team is not playing in this match";
+        }
+        await storage.createScoreAdjustment({
+          matchId,
+          teamId: command.teamId,
+          points: command.points,
+          reason: command.reason,
+          createdBy: adminId,
+        });
+        await this.recalculateScores(entry);
+        return null;
+      case "end":
+        await this.complete(entry);
+        return null;
+    }
+  }
+
+  // Stops running the match on this instance; its persisted state is left for takeover
+  stop(matchId: string) {
+    const entry = this.live.get(matchId);
+    if (!entry) return;
+    this.clearTimers(entry);
+    this.live.delete(matchId);
+  }
+
+  private async checkIn() {
+    await storage.touchLiveMatchStates(this.instanceId);
+
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+    for (const stale of await storage.getStaleLiveMatchStates(staleBefore)) {
+      if (this.live.has(stale.matchId)) continue;
+
+      const claimed = await storage.claimLiveMatchState(stale.matchId, this.instanceId, staleBefore);
+      if (!claimed) continue;
+
+      const entry = await this.hydrate(claimed);
+      if (!entry) {
+        await storage.deleteLiveMatchState(claimed.matchId);
+        await storage.deleteAnswerProposals(claimed.matchId);
+        continue;
+      }
+      this.live.set(entry.match.id, entry);
+      await this.schedule(entry);
+    }
+  }
+
+  private async takeOver(matchId: string): Promise<LiveMatch | undefined> {
+    const loaded = await this.load(matchId);
+    if (!loaded) return undefined;
+    const { entry, record } = loaded;
+    if (record.ownerId === this.instanceId) return entry;
+
+    // The previous owner notices the new ownerId before its next step and lets go
+    this.live.set(matchId, entry);
+    await this.persist(entry);
+    await this.schedule(entry);
+    return entry;
+  }
+
+  // The persisted record is the source of truth: a local entry is only used while this instance still owns it
+  private async load(matchId: string): Promise<{ entry: LiveMatch; record: LiveMatchStateRecord } | undefined> {
+    const record = await storage.getLiveMatchState(matchId);
+    const owned = this.live.get(matchId);
+    if (owned && record?.ownerId === this.instanceId) return { entry: owned, record };
+    if (owned) this.stop(matchId);
+
+    const entry = record && await this.hydrate(record);
+    return entry && record ? { entry, record } : undefined;
+  }
+
+  // Rebuilds a match from its persisted state, e.g. when another instance owns it
+  private async hydrate(record: LiveMatchStateRecord): Promise<LiveMatch | undefined> {
+    const match = await storage.getMatch(record.matchId);
+    if (!match || match.status !== "live") return undefined;
+
+    const questions = await storage.getMatchQuestions(match.id);
+    const competition = await storage.getCompetition(match.competitionId);
+    const { state } = record;
+
+    return {
+      match,
+      questions,
+      competition,
+      rules: getScoringRules(competition),
+      captains: await getTeamCaptains(match),
+      state: {
+        status: "live",
+        phase: state.phase,
+        currentQuestion: state.currentQuestion,
+        totalQuestions: questions.length,
+        homeScore: match.homeScore,
+        awayScore: match.awayScore,
+        timeRemaining: 0,
+        questionDeadline: state.questionDeadline,
+        tieBreaker: state.tieBreaker,
+        paused: state.pausedAt != null,
+        answerMode: competition?.answerMode ?? "individual",
+      },
+      tieBreakersAsked: state.tieBreakersAsked,
+      questionReleasedAt: state.questionReleasedAt,
+      phaseEndsAt: state.phaseEndsAt,
+      pausedAt: state.pausedAt ?? null,
+      pausedRemainingMs: state.pausedRemainingMs ?? null,
+    };
+  }
+
+  private async persist(entry: LiveMatch) {
+    await storage.saveLiveMatchState({
+      matchId: entry.match.id,
+      ownerId: this.instanceId,
+      heartbeatAt: new Date(),
+      state: {
+        phase: entry.state.phase,
+        currentQuestion: entry.state.currentQuestion,
+        questionReleasedAt: entry.questionReleasedAt,
+        questionDeadline: entry.state.questionDeadline,
+        phaseEndsAt: entry.phaseEndsAt,
+        tieBreaker: entry.state.tieBreaker,
+        tieBreakersAsked: entry.tieBreakersAsked,
+        pausedAt: entry.pausedAt,
+        pausedRemainingMs: entry.pausedRemainingMs,
+      },
+    });
+  }
+
+  // Arms the timers for the entry's current phase; also used to resume a taken-over match
+  private async schedule(entry: LiveMatch) {
+    if (entry.state.paused) return;
+    const now = Date.now();
+    switch (entry.state.phase) {
+      case "waiting":
+        return this.releaseQuestion(entry, 0);
+      case "question":
+        entry.ticker = setInterval(() => {
+          this.broadcast(entry.match.id, { type: "timer_tick", remaining: this.secondsRemaining(entry) });
+        }, TICK_INTERVAL_MS);
+        return this.after(entry, (entry.state.questionDeadline ?? now) - now, () => this.lockQuestion(entry));
+      case "locked":
+        return this.after(entry, (entry.phaseEndsAt ?? now) - now, () => this.revealAnswer(entry));
+      case "reveal":
+        return this.after(entry, (entry.phaseEndsAt ?? now) - now, () => this.advance(entry));
+    }
+  }
+
+  private after(entry: LiveMatch, delay: number, step: () => Promise<void>) {
+    entry.timer = setTimeout(() => {
+      this.stepIfOwner(entry, step).catch((error) => {
+        console.error("Failed to advance match:", error);
+      });
+    }, Math.max(0, delay));
+  }
+
+  // Another instance may have taken the match over (see control); if so stop driving it here
+  private async stepIfOwner(entry: LiveMatch, step: () => Promise<void>) {
+    const record = await storage.getLiveMatchState(entry.match.id);
+    if (record?.ownerId !== this.instanceId) {
+      this.stop(entry.match.id);
+      return;
+    }
+    await step();
+  }
+
+  // Freezes whichever phase is running; the time left is restored on resume
+  private async pause(entry: LiveMatch): Promise<string | null> {
+    if (entry.state.paused) return "Match is already paused";
+    const now = Date.now();
+
+    this.clearTimers(entry);
+    entry.pausedAt = now;
+    entry.pausedRemainingMs = Math.max(0, (entry.phaseEndsAt ?? now) - now);
+    entry.phaseEndsAt = null;
+    entry.state.paused = true;
+    entry.state.questionDeadline = null;
+    await this.persist(entry);
+
+    this.broadcast(entry.match.id, { type: "match_paused", remaining: this.secondsRemaining(entry) });
+    return null;
+  }
+
+  private async resume(entry: LiveMatch): Promise<string | null> {
+    if (!entry.state.paused || entry.pausedAt === null) return "Match is not paused";
+    const now = Date.now();
+    const endsAt = now + (entry.pausedRemainingMs ?? 0);
+
+    // Time spent paused does not count against answer speed
+    entry.questionReleasedAt += now - entry.pausedAt;
+    entry.phaseEndsAt = endsAt;
+    if (entry.state.phase === "question") entry.state.questionDeadline = endsAt;
+    entry.pausedAt = null;
+    entry.pausedRemainingMs = null;
+    entry.state.paused = false;
+    await this.persist(entry);
+
+    this.broadcast(entry.match.id, {
+      type: "match_resumed",
+      phase: entry.state.phase,
+      deadline: entry.state.questionDeadline,
+      remaining: this.secondsRemaining(entry),
+    });
+    await this.schedule(entry);
+    return null;
+  }
+
+  private async extend(entry: LiveMatch, seconds: number): Promise<string | null> {
+    if (entry.state.phase !== "question") return "Time can only be extended while a question is open";
+
+    if (entry.state.paused) {
+      entry.pausedRemainingMs = (entry.pausedRemainingMs ?? 0) + seconds * 1000;
+    } else {
+      const deadline = (entry.state.questionDeadline ?? Date.now()) + seconds * 1000;
+      entry.state.questionDeadline = deadline;
+      entry.phaseEndsAt = deadline;
+      this.clearTimers(entry);
+    }
+    await this.persist(entry);
+
+    this.broadcast(entry.match.id, {
+      type: "time_extended",
+      deadline: entry.state.questionDeadline,
+      remaining: this.secondsRemaining(entry),
+    });
+    await this.schedule(entry);
+    return null;
+  }
+
+  // Voids the open question and moves straight on without a reveal. Once the
+  // question has closed it has been marked, so taking it back is a void
+  private async skip(entry: LiveMatch): Promise<string | null> {
+    const question = entry.questions[entry.state.currentQuestion];
+    if (entry.state.phase === "waiting" || !question) return "No question is in play";
+    if (entry.state.phase !== "question") return "This question has already closed; void it instead";
+
+    this.clearTimers(entry);
+    entry.pausedAt = null;
+    entry.pausedRemainingMs = null;
+    entry.state.paused = false;
+    await this.voidAndRescore(entry, question.id);
+    await this.advance(entry);
+    return null;
+  }
+
+  // Voids a question that has already been asked; the open question is skipped instead
+  private async voidAsked(entry: LiveMatch, questionId: string): Promise<string | null> {
+    const index = entry.questions.findIndex(q => q.id === questionId);
+    if (index === -1) return "Question is not part of this match";
+    if (index > entry.state.currentQuestion || entry.state.phase === "waiting") {
+      return "Question has not been asked yet";
+    }
+    if (index === entry.state.currentQuestion && entry.state.phase === "question") {
+      return "Skip the question in play instead of voiding it";
+    }
+
+    await this.voidAndRescore(entry, questionId);
+    return null;
+  }
+
+  private async voidAndRescore(entry: LiveMatch, questionId: string) {
+    await voidQuestion(entry.match, questionId);
+    this.broadcast(entry.match.id, { type: "question_voided", questionId });
+    await this.recalculateScores(entry);
+  }
+
+  // userId -> proposed answer for one team and question
+  private async teamProposals(matchId: string, questionId: string, teamId: string): Promise<Record<string, string>> {
+    const proposals = await storage.getAnswerProposals(matchId, questionId, teamId);
+    return Object.fromEntries(proposals.map(p => [p.userId, p.answer]));
+  }
+
+  private async teamHasAnswered(entry: LiveMatch, submission: AnswerSubmission): Promise<boolean> {
+    const answers = await storage.getAnswersByMatch(entry.match.id);
+    return answers.some(a => a.questionId === submission.questionId && a.teamId === submission.teamId);
+  }
+
+  private checkOpen(entry: LiveMatch, questionId: string): string | null {
+    const question = entry.questions[entry.state.currentQuestion];
+    if (!question || question.id !== questionId) return "This question is no longer open";
+    if (entry.state.paused) return "The match is paused";
+
+    const deadline = entry.state.questionDeadline;
+    if (entry.state.phase !== "question" || !deadline || Date.now() > deadline) {
+      return "Time is up for this question";
+    }
+    return null;
+  }
+
+  private async releaseQuestion(entry: LiveMatch, index: number) {
+    const question = entry.questions[index];
+    const releasedAt = Date.now();
+    const deadline = releasedAt + question.timeLimit * 1000;
+
+    entry.questionReleasedAt = releasedAt;
+    entry.phaseEndsAt = deadline;
+    entry.state.phase = "question";
+    entry.state.currentQuestion = index;
+    entry.state.questionDeadline = deadline;
+    entry.state.timeRemaining = question.timeLimit;
+    await this.persist(entry);
+
+    this.broadcast(entry.match.id, {
+      type: "question_released",
+      questionIndex: index,
+      totalQuestions: entry.questions.length,
+      question: toPublicQuestion(question),
+      timeLimit: question.timeLimit,
+      deadline,
+      tieBreaker: entry.state.tieBreaker,
+    });
+    await this.schedule(entry);
+  }
+
+  private async lockQuestion(entry: LiveMatch) {
+    this.clearTimers(entry);
+    entry.state.phase = "locked";
+    entry.state.questionDeadline = null;
+    entry.state.timeRemaining = 0;
+    entry.phaseEndsAt = Date.now() + LOCK_DURATION_MS;
+    await this.persist(entry);
+
+    this.broadcast(entry.match.id, { type: "question_locked", questionIndex: entry.state.currentQuestion });
+    await this.schedule(entry);
+  }
+
+  private async revealAnswer(entry: LiveMatch) {
+    const question = entry.questions[entry.state.currentQuestion];
+    entry.state.phase = "reveal";
+    entry.phaseEndsAt = Date.now() + REVEAL_DURATION_MS;
+    await this.persist(entry);
+
+    this.broadcast(entry.match.id, {
+      type: "answer_reveal",
+      questionIndex: entry.state.currentQuestion,
+      questionId: question.id,
+      correctAnswer: getAnswerKey(question),
+    });
+    await this.schedule(entry);
+  }
+
+  private async advance(entry: LiveMatch) {
+    // Answers may have been accepted by other instances, so re-read the totals
+    await this.refreshScores(entry);
+    const { homeScore, awayScore } = entry.state;
+
+    // Sudden death: the first tie-breaker that separates the teams ends the match
+    if (entry.state.tieBreaker && homeScore !== awayScore) {
+      return this.complete(entry);
+    }
+
+    const next = entry.state.currentQuestion + 1;
+    if (next < entry.questions.length) {
+      return this.releaseQuestion(entry, next);
+    }
+
+    if (homeScore === awayScore && await this.shouldPlayTieBreaker(entry)) {
+      const question = await drawTieBreakerQuestion(entry.match, entry.questions);
+      if (question) {
+        entry.questions.push(question);
+        entry.tieBreakersAsked++;
+        entry.state.tieBreaker = true;
+        entry.state.totalQuestions = entry.questions.length;
+        return this.releaseQuestion(entry, next);
+      }
+    }
+
+    return this.complete(entry);
+  }
+
+  private async shouldPlayTieBreaker(entry: LiveMatch): Promise<boolean> {
+    if (entry.tieBreakersAsked >= MAX_TIE_BREAKERS) return false;
+    if (entry.state.tieBreaker) return true;
+    return this.hooks.needsTieBreaker ? this.hooks.needsTieBreaker(entry.match) : false;
+  }
+
+  private async complete(entry: LiveMatch) {
+    this.clearTimers(entry);
+    const matchId = entry.match.id;
+    await this.refreshScores(entry);
+
+    const completed = await storage.updateMatch(matchId, {
+      status: "completed",
+      completedAt: new Date(),
+      homeScore: entry.state.homeScore,
+      awayScore: entry.state.awayScore,
+    });
+
+    entry.state.status = "completed";
+    entry.state.phase = "completed";
+    this.live.delete(matchId);
+    await storage.deleteLiveMatchState(matchId);
+    await storage.deleteAnswerProposals(matchId);
+
+    this.broadcast(matchId, {
+      type: "match_complete",
+      homeScore: entry.state.homeScore,
+      awayScore: entry.state.awayScore,
+    });
+
+    if (completed && this.hooks.onComplete) {
+      await this.hooks.onComplete(completed);
+    }
+  }
+
+  private async refreshScores(entry: LiveMatch) {
+    const { homeScore, awayScore } = await getMatchScores(entry.match);
+    entry.state.homeScore = homeScore;
+    entry.state.awayScore = awayScore;
+  }
+
+  private async recalculateScores(entry: LiveMatch) {
+    const matchId = entry.match.id;
+    const { playerScores, homeScore, awayScore } = await getMatchScores(entry.match);
+
+    await storage.updateMatch(matchId, { homeScore, awayScore });
+    entry.state.homeScore = homeScore;
+    entry.state.awayScore = awayScore;
+
+    this.broadcast(matchId, {
+      type: "score_update",
+      playerScores,
+      homeScore,
+      awayScore,
+    });
+  }
+
+  private secondsRemaining(entry: LiveMatch): number {
+    if (entry.state.paused) return Math.ceil((entry.pausedRemainingMs ?? 0) / 1000);
+    if (!entry.state.questionDeadline) return 0;
+    return Math.max(0, Math.ceil((entry.state.questionDeadline - Date.now()) / 1000));
+  }
+
+  private clearTimers(entry: LiveMatch) {
+    if (entry.timer) clearTimeout(entry.timer);
+    if (entry.ticker) clearInterval(entry.ticker);
+    entry.timer = undefined;
+    entry.ticker = undefined;
+  }
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { PRESENCE_STALE_MS, bothTeamsReady, getMatchLobby } from "./match-lobby";
+
+beforeEach(() => mock.timers.enable({ apis: ["Date"], now: Date.now() }));
+afterEach(() => mock.timers.reset());
+
+let seeded = 0;
+
+async function lobbyMatch(minReadyPlayers: number) {
+  const n = ++seeded;
+  const owner = await storage.createUser({ username: `lobby-owner${n}`, email: `lobby-owner${n}@example.com`, password: "secret" });
+  const competition = await storage.createCompetition({
+    name: `Lobby Cup ${n}`,
+    registrationFee: "0",
+    startDate: new Date(),
+    endDate: new Date(),
+    registrationDeadline: new Date(),
+    minReadyPlayers,
+  });
+  const home = await storage.createTeam({ name: `Lobby Home ${n}`, createdBy: owner.id });
+  const away = await storage.createTeam({ name: `Lobby Away ${n}`, createdBy: owner.id });
+  const match = await storage.createMatch({
+    competitionId: competition.id,
+    homeTeamId: home.id,
+    awayTeamId: away.id,
+    round: 1,
+    scheduledAt: new Date(),
+    status: "waiting",
+  });
+
+  const join = async (name: string, teamId: string, ready: boolean) => {
+    const user = await storage.createUser({ username: `lobby-${name}${n}`, email: `lobby-${name}${n}@example.com`, password: "secret" });
+    await storage.saveMatchPresence({ matchId: match.id, userId: user.id, teamId, instanceId: "lobby-test" });
+    if (ready) await storage.setMatchPresenceReady(match.id, user.id, true);
+    return user;
+  };
+  return { match, home, away, join };
+}
+
+test("a team is ready once the competition's minimum of its players are", async () => {
+  const { match, home, away, join } = await lobbyMatch(2);
+  await join("home1", home.id, true);
+  await join("home2", home.id, true);
+  await join("away1", away.id, true);
+  const waiting = await join("away2", away.id, false);
+
+  const lobby = await getMatchLobby(match);
+  assert.equal(lobby.minReadyPlayers, 2);
+  assert.equal(lobby.teams[home.id].isReady, true);
+  assert.deepEqual([lobby.teams[away.id].connected.length, lobby.teams[away.id].ready.length], [2, 1]);
+  assert.equal(bothTeamsReady(lobby, match), false);
+
+  await storage.setMatchPresenceReady(match.id, waiting.id, true);
+  assert.equal(bothTeamsReady(await getMatchLobby(match), match), true);
+});
+
+test("players whose presence has gone stale drop out of the lobby", async () => {
+  const { match, home, away, join } = await lobbyMatch(1);
+  await join("home", home.id, true);
+  await join("away", away.id, true);
+  assert.equal(bothTeamsReady(await getMatchLobby(match), match), true);
+
+  mock.timers.tick(PRESENCE_STALE_MS + 1000);
+  const lobby = await getMatchLobby(match);
+  assert.deepEqual(lobby.teams[home.id], { connected: [], ready: [], isReady: false });
+  assert.equal(bothTeamsReady(lobby, match), false);
+});
@@ -0,0 +1,30 @@
+import type { Match, MatchLobby } from "@shared/schema";
+import { storage } from "./storage";
+
+// Presence rows not refreshed for this long belong to a dead instance
+export const PRESENCE_STALE_MS = 30000;
+
+// Who is connected and who is ready on each side of a match, across all instances
+export async function getMatchLobby(match: Match): Promise<MatchLobby> {
+  const competition = await storage.getCompetition(match.competitionId);
+  const minReadyPlayers = competition?.minReadyPlayers ?? 1;
+  const seenAfter = new Date(Date.now() - PRESENCE_STALE_MS);
+  const presence = await storage.getMatchPresence(match.id, seenAfter);
+
+  const teams: MatchLobby["teams"] = {};
+  for (const teamId of [match.homeTeamId, match.awayTeamId]) {
+    const members = presence.filter(p => p.teamId === teamId);
+    const ready = members.filter(p => p.isReady).map(p => p.userId);
+    teams[teamId] = {
+      connected: members.map(p => p.userId),
+      ready,
+      isReady: ready.length >= minReadyPlayers,
+    };
+  }
+
+  return { matchId: match.id, minReadyPlayers, teams };
+}
+
+export function bothTeamsReady(lobby: MatchLobby, match: Pick<Match, "homeTeamId" | "awayTeamId">): boolean {
+  return !!lobby.teams[match.homeTeamId]?.isReady && !!lobby.teams[match.awayTeamId]?.isReady;
+}
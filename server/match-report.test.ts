@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { buildMatchReport } from "./match-report";
+import { rescoreMatch } from "./scoring";
+
+let seeded = 0;
+
+async function playedMatch() {
+  const n = ++seeded;
+  const user = (name: string) =>
+    storage.createUser({ username: `report-${name}${n}`, email: `report-${name}${n}@example.com`, password: "secret" });
+  const [admin, homePlayer, awayPlayer] = [await user("admin"), await user("home"), await user("away")];
+  const competition = await storage.createCompetition({
+    name: `Report Cup ${n}`,
+    registrationFee: "0",
+    startDate: new Date(),
+    endDate: new Date(),
+    registrationDeadline: new Date(),
+  });
+  const home = await storage.createTeam({ name: `Report Home ${n}`, createdBy: admin.id });
+  const away = await storage.createTeam({ name: `Report Away ${n}`, createdBy: admin.id });
+  await storage.addTeamMember({ teamId: home.id, userId: homePlayer.id });
+  await storage.addTeamMember({ teamId: away.id, userId: awayPlayer.id });
+
+  const question = await storage.createQuestion({
+    questionText: "Report question", optionA: "a", optionB: "b", optionC: "c", optionD: "d", correctAnswer: "A",
+    explanation: "Because", subject: "s", difficulty: "easy", mode: "competition",
+  });
+  const match = await storage.createMatch({
+    competitionId: competition.id,
+    homeTeamId: home.id,
+    awayTeamId: away.id,
+    round: 1,
+    scheduledAt: new Date(),
+    status: "completed",
+  });
+  await storage.createMatchQuestions([
+    { matchId: match.id, questionId: question.id, questionRevision: question.revision, questionOrder: 1 },
+  ]);
+  const answer = (userId: string, teamId: string, answer: string, isCorrect: boolean) => storage.submitAnswer({
+    matchId: match.id, questionId: question.id, userId, teamId, answer, isCorrect, timeTaken: 2000, points: isCorrect ? 1 : 0,
+  });
+  await answer(homePlayer.id, home.id, "A", true);
+  await answer(awayPlayer.id, away.id, "B", false);
+
+  return { match, home, away, admin };
+}
+
+test("the replay includes score adjustments and ends on the match score", async () => {
+  const { match, away, admin } = await playedMatch();
+  await storage.createScoreAdjustment({ matchId: match.id, teamId: away.id, points: 3, reason: "Appeal upheld", createdBy: admin.id });
+  const final = await rescoreMatch(match);
+
+  const { timeline } = await buildMatchReport(final, true);
+  assert.deepEqual(timeline.map(e => e.kind), ["answer", "answer", "adjustment"]);
+  const last = timeline[timeline.length - 1];
+  assert.deepEqual([last.homeScore, last.awayScore], [final.homeScore, final.awayScore]);
+  assert.ok(last.kind === "adjustment");
+  assert.equal(last.reason, "Appeal upheld");
+});
+
+test("viewers outside the match get no answer key or player answers", async () => {
+  const { match } = await playedMatch();
+
+  const report = await buildMatchReport(match, false);
+  assert.equal(report.answersShown, false);
+  assert.equal(report.questions[0].answerKey, null);
+  assert.equal(report.questions[0].explanation, null);
+  assert.ok(report.timeline.every(e => e.kind !== "answer" || e.answer === null));
+});
@@ -0,0 +1,98 @@
+import {
+  toPublicQuestion,
+  type AnswerAccuracy, type Match, type MatchReport, type PlayerAnswer, type QuestionBreakdown, type ReportAnswer,
+  type TimelineEvent,
+} from "@shared/schema";
+import { getAnswerKey } from "@shared/question-types";
+import { storage } from "./storage";
+
+const emptyAccuracy = (): AnswerAccuracy => ({ answered: 0, correct: 0, percentage: 0 });
+
+function addAnswer(accuracy: AnswerAccuracy, isCorrect: boolean): AnswerAccuracy {
+  const answered = accuracy.answered + 1;
+  const correct = accuracy.correct + (isCorrect ? 1 : 0);
+  return { answered, correct, percentage: Math.round((correct / answered) * 100) };
+}
+
+// Accuracy for each team in the match, counting only the answers they submitted
+function teamAccuracy(answers: Pick<PlayerAnswer, "teamId" | "isCorrect">[], match: Match) {
+  const teams: Record<string, AnswerAccuracy> = {
+    [match.homeTeamId]: emptyAccuracy(),
+    [match.awayTeamId]: emptyAccuracy(),
+  };
+  for (const answer of answers) {
+    if (!teams[answer.teamId]) continue;
+    teams[answer.teamId] = addAnswer(teams[answer.teamId], answer.isCorrect);
+  }
+  return teams;
+}
+
+function toReportAnswer(answer: PlayerAnswer, answersShown: boolean): ReportAnswer {
+  const { userId, teamId, isCorrect, timeTaken, points } = answer;
+  return { userId, teamId, answer: answersShown ? answer.answer : null, isCorrect, timeTaken, points };
+}
+
+// Only the match's players and admins see the answer key and what each player
+// answered; the questions can be drawn again, so anyone else gets scores and accuracy
+export async function buildMatchReport(match: Match, answersShown: boolean): Promise<MatchReport> {
+  const questions = await storage.getMatchQuestions(match.id);
+  const answers = await storage.getAnswersByMatch(match.id);
+
+  const players: MatchReport["players"] = {};
+  for (const teamId of [match.homeTeamId, match.awayTeamId]) {
+    const team = await storage.getTeamWithMembers(teamId);
+    team?.members.forEach(({ user }) => {
+      players[user.id] = { username: user.username, teamId };
+    });
+  }
+
+  const breakdown: QuestionBreakdown[] = questions.map((question, index) => {
+    const questionAnswers = answers.filter(a => a.questionId === question.id);
+    return {
+      index,
+      question: toPublicQuestion(question),
+      answerKey: answersShown ? getAnswerKey(question) : null,
+      explanation: answersShown ? question.explanation : null,
+      references: answersShown ? question.references : [],
+      answers: questionAnswers.map(answer => toReportAnswer(answer, answersShown)),
+      teams: teamAccuracy(questionAnswers, match),
+    };
+  });
+
+  const subjects = Array.from(new Set(questions.map(q => q.subject))).map((subject) => {
+    const ids = new Set(questions.filter(q => q.subject === subject).map(q => q.id));
+    return { subject, teams: teamAccuracy(answers.filter(a => ids.has(a.questionId)), match) };
+  });
+
+  // Replays answers in the order the server accepted them, and admin score
+  // adjustments when they were made, with the running score
+  const questionIndex = new Map(questions.map((q, index) => [q.id, index]));
+  const adjustments = await storage.getScoreAdjustments(match.id);
+  const steps = [
+    ...answers.map(answer => ({ at: new Date(answer.answeredAt), answer })),
+    ...adjustments.map(adjustment => ({ at: new Date(adjustment.createdAt), adjustment })),
+  ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  let homeScore = 0;
+  let awayScore = 0;
+  const timeline = steps.map((step): TimelineEvent => {
+    const { teamId, points } = "answer" in step ? step.answer : step.adjustment;
+    if (teamId === match.homeTeamId) homeScore += points;
+    else if (teamId === match.awayTeamId) awayScore += points;
+
+    const at = step.at.toISOString();
+    if ("adjustment" in step) {
+      return { kind: "adjustment", teamId, points, reason: step.adjustment.reason, at, homeScore, awayScore };
+    }
+    return {
+      ...toReportAnswer(step.answer, answersShown),
+      kind: "answer",
+      questionIndex: questionIndex.get(step.answer.questionId) ?? -1,
+      at,
+      homeScore,
+      awayScore,
+    };
+  });
+
+  return { answersShown, players, questions: breakdown, subjects, timeline };
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Match } from "@shared/schema";
+import { storage } from "./storage";
+import type { MatchEngine } from "./match-engine";
+import { MatchScheduler } from "./match-scheduler";
+
+const MINUTE = 60 * 1000;
+
+// Stands in for the engine: records starts and fails for the matches in broken
+const started: string[] = [];
+const broken = new Set<string>();
+const engine = {
+  instanceId: "scheduler-test",
+  async start(matchId: string) {
+    if (broken.has(matchId)) throw new Error("No competition questions available");
+    started.push(matchId);
+    await storage.transitionMatch(matchId, "waiting", { status: "live" });
+  },
+} as unknown as MatchEngine;
+
+const lobbiesOpened: string[] = [];
+const forfeits: Match[] = [];
+const postponed: Match[] = [];
+const scheduler = new MatchScheduler(engine, {
+  onLobbyOpen: match => lobbiesOpened.push(match.id),
+  onForfeit: async match => { forfeits.push(match); },
+  onPostpone: match => postponed.push(match),
+});
+
+beforeEach(() => mock.timers.enable({ apis: ["Date"], now: Date.now() }));
+afterEach(() => mock.timers.reset());
+
+let seeded = 0;
+
+async function scheduledMatch(minutesFromNow: number) {
+  const n = ++seeded;
+  const user = (name: string) =>
+    storage.createUser({ username: `sched-${name}${n}`, email: `sched-${name}${n}@example.com`, password: "secret" });
+  const [owner, homePlayer, awayPlayer] = [await user("owner"), await user("home"), await user("away")];
+  const competition = await storage.createCompetition({
+    name: `Scheduler Cup ${n}`,
+    registrationFee: "0",
+    startDate: new Date(),
+    endDate: new Date(),
+    registrationDeadline: new Date(),
+  });
+  const home = await storage.createTeam({ name: `Scheduler Home ${n}`, createdBy: owner.id });
+  const away = await storage.createTeam({ name: `Scheduler Away ${n}`, createdBy: owner.id });
+  await storage.addTeamMember({ teamId: home.id, userId: homePlayer.id });
+  await storage.addTeamMember({ teamId: away.id, userId: awayPlayer.id });
+  const match = await storage.createMatch({
+    competitionId: competition.id,
+    homeTeamId: home.id,
+    awayTeamId: away.id,
+    round: 1,
+    scheduledAt: new Date(Date.now() + minutesFromNow * MINUTE),
+    status: "waiting",
+  });
+
+  const join = async (userId: string, teamId: string, ready = false) => {
+    await storage.saveMatchPresence({ matchId: match.id, userId, teamId, instanceId: engine.instanceId });
+    if (ready) await storage.setMatchPresenceReady(match.id, userId, true);
+  };
+  return { match, home, away, homePlayer, awayPlayer, join };
+}
+
+test("the lobby opens ahead of kick-off and the match starts once both teams are ready", async () => {
+  const { match, home, away, homePlayer, awayPlayer, join } = await scheduledMatch(5);
+  await scheduler.tick();
+  assert.ok(lobbiesOpened.includes(match.id));
+  assert.ok((await storage.getMatch(match.id))?.lobbyOpenedAt);
+
+  await join(homePlayer.id, home.id, true);
+  await join(awayPlayer.id, away.id, true);
+  await scheduler.tick();
+  assert.ok(!started.includes(match.id), "nothing starts before kick-off");
+
+  mock.timers.tick(5 * MINUTE);
+  await scheduler.tick();
+  assert.ok(started.includes(match.id));
+});
+
+test("a team with nobody there at the grace deadline forfeits", async () => {
+  const { match, home, away, homePlayer, join } = await scheduledMatch(-6);
+  await join(homePlayer.id, home.id);
+  await scheduler.tick();
+
+  const forfeit = forfeits.find(m => m.id === match.id);
+  assert.equal(forfeit?.forfeitedBy, away.id);
+});
+
+test("a match neither team turned up to is postponed", async () => {
+  const { match } = await scheduledMatch(-6);
+  await scheduler.tick();
+
+  assert.equal((await storage.getMatch(match.id))?.status, "postponed");
+  assert.ok(postponed.some(m => m.id === match.id));
+});
+
+test("a match that will not start is retried with backoff, then postponed", async () => {
+  const { match, home, away, homePlayer, awayPlayer, join } = await scheduledMatch(0);
+  broken.add(match.id);
+  await join(homePlayer.id, home.id, true);
+  await join(awayPlayer.id, away.id, true);
+  const attempts = mock.method(console, "error", () => {});
+
+  await scheduler.tick();
+  await scheduler.tick();
+  assert.equal(attempts.mock.callCount(), 1, "the next tick waits out the backoff");
+
+  for (let i = 0; i < 4; i++) {
+    mock.timers.tick(5 * MINUTE);
+    // Presence is refreshed by the instance's own sockets in a real lobby
+    await join(homePlayer.id, home.id, true);
+    await join(awayPlayer.id, away.id, true);
+    await scheduler.tick();
+  }
+  attempts.mock.restore();
+
+  assert.equal(attempts.mock.callCount(), 5);
+  assert.equal((await storage.getMatch(match.id))?.status, "postponed");
+});
@@ -0,0 +1,129 @@
+import type { Match } from "@shared/schema";
+import { storage } from "./storage";
+import type { MatchEngine } from "./match-engine";
+import { bothTeamsReady, getMatchLobby } from "./match-lobby";
+import { forfeitMatch, postponeMatch } from "./fixture-changes";
+
+// How long before scheduledAt players can join the lobby
+const LOBBY_LEAD_MS = 10 * 60 * 1000;
+// How long after scheduledAt a team with nobody connected has before it forfeits
+const FORFEIT_GRACE_MS = 5 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 5000;
+// A match that keeps failing to start is retried with a doubling delay, then
+// postponed so it shows up for an admin to reschedule
+const MAX_START_ATTEMPTS = 5;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+interface MatchSchedulerHooks {
+  onLobbyOpen?: (match: Match) => void;
+  onForfeit?: (match: Match) => Promise<void>;
+  onPostpone?: (match: Match) => void;
+}
+
+// Opens lobbies, starts matches once both teams are ready, awards forfeits and
+// postpones matches nobody turned up to or that would not start.
+// Everything it acts on is read from storage on each tick, so a restart
+// simply picks up where the previous process left off
+export class MatchScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private failures = new Map<string, { attempts: number; retryAt: number }>();
+
+  constructor(private engine: MatchEngine, private hooks: MatchSchedulerHooks = {}) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error("Match scheduler tick failed:", error);
+      });
+    }, SCHEDULER_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async tick() {
+    // A slow tick must not overlap the next one
+    if (this.running) return;
+    this.running = true;
+    try {
+      await storage.touchMatchPresence(this.engine.instanceId);
+
+      const now = Date.now();
+      const due = await storage.getWaitingMatchesScheduledBefore(new Date(now + LOBBY_LEAD_MS));
+      for (const match of due) {
+        const failure = this.failures.get(match.id);
+        if (failure && now < failure.retryAt) continue;
+        try {
+          await this.process(match, now);
+          this.failures.delete(match.id);
+        } catch (error) {
+          await this.recordFailure(match, now, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async process(match: Match, now: number) {
+    if (!match.lobbyOpenedAt) {
+      const opened = await storage.transitionMatch(match.id, "waiting", { lobbyOpenedAt: new Date() });
+      if (opened && this.hooks.onLobbyOpen) this.hooks.onLobbyOpen(opened);
+    }
+
+    const scheduledAt = new Date(match.scheduledAt).getTime();
+    if (now < scheduledAt) return;
+
+    const lobby = await getMatchLobby(match);
+    if (bothTeamsReady(lobby, match)) {
+      await this.engine.start(match.id);
+      return;
+    }
+    if (now < scheduledAt + FORFEIT_GRACE_MS) return;
+
+    // At the grace deadline both sides being connected is enough to play
+    const homePresent = lobby.teams[match.homeTeamId].connected.length > 0;
+    const awayPresent = lobby.teams[match.awayTeamId].connected.length > 0;
+    if (homePresent && awayPresent) {
+      await this.engine.start(match.id);
+      return;
+    }
+
+    // With neither side there nobody can be awarded the match, so it goes back to an admin to rearrange
+    if (!homePresent && !awayPresent) {
+      await this.postpone(match, "Neither team turned up");
+      return;
+    }
+
+    const forfeited = await forfeitMatch(
+      match,
+      homePresent ? match.awayTeamId : match.homeTeamId,
+      "Nobody from the team turned up"
+    );
+    if (forfeited && this.hooks.onForfeit) {
+      await this.hooks.onForfeit(forfeited);
+    }
+  }
+
+  private async recordFailure(match: Match, now: number, error: unknown) {
+    const attempts = (this.failures.get(match.id)?.attempts ?? 0) + 1;
+    console.error(`Failed to schedule match ${match.id} (attempt ${attempts}):`, error);
+    if (attempts < MAX_START_ATTEMPTS) {
+      const delay = Math.min(SCHEDULER_INTERVAL_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+      this.failures.set(match.id, { attempts, retryAt: now + delay });
+      return;
+    }
+    this.failures.delete(match.id);
+    await this.postpone(match, "The match could not be started");
+  }
+
+  private async postpone(match: Match, reason: string) {
+    const postponed = await postponeMatch(match, reason);
+    if (postponed && this.hooks.onPostpone) this.hooks.onPostpone(postponed);
+  }
+}
@@ -0,0 +1,20 @@
+import type { Match, Notification } from "@shared/schema";
+import { storage } from "./storage";
+
+type MatchNotification = Pick<Notification, "type" | "title" | "message">;
+
+// Sends the same notification to every member of both teams in a match
+export async function notifyMatchTeams(match: Match, notification: MatchNotification): Promise<Notification[]> {
+  const members = [
+    ...(await storage.getTeamMembers(match.homeTeamId)),
+    ...(await storage.getTeamMembers(match.awayTeamId)),
+  ];
+  // A player on both rosters is only told once
+  const userIds = Array.from(new Set(members.map(m => m.userId)));
+
+  return storage.createNotifications(userIds.map(userId => ({
+    ...notification,
+    userId,
+    matchId: match.id,
+  })));
+}
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { voidQuestion } from "./scoring";
+import { getQuestionAnalytics, observedDifficulty, pointBiserial } from "./question-analytics";
+
+test("point-biserial rises when the players who got it right scored more overall", () => {
+  const scores = [
+    { isCorrect: true, total: 9 }, { isCorrect: true, total: 8 },
+    { isCorrect: false, total: 3 }, { isCorrect: false, total: 2 },
+  ];
+  assert.ok(pointBiserial(scores)! > 0.9);
+  assert.ok(pointBiserial(scores.map(s => ({ ...s, isCorrect: !s.isCorrect })))! < -0.9);
+  // Everyone right, or everyone on the same total, leaves nothing to correlate
+  assert.equal(pointBiserial(scores.map(s => ({ ...s, isCorrect: true }))), null);
+  assert.equal(pointBiserial(scores.map(s => ({ ...s, total: 5 }))), null);
+});
+
+test("observed difficulty follows the share answered correctly", () => {
+  assert.deepEqual([0.9, 0.7, 0.5, 0.39].map(observedDifficulty), ["easy", "easy", "medium", "hard"]);
+});
+
+test("each revision is analysed against its own key and voided questions are left out", async () => {
+  const admin = await storage.createUser({ username: "analyst", email: "analyst@example.com", password: "secret", role: "admin" });
+  const competition = await storage.createCompetition({
+    name: "Analytics Cup",
+    registrationFee: "0",
+    startDate: new Date(),
+    endDate: new Date(),
+    registrationDeadline: new Date(),
+  });
+  const home = await storage.createTeam({ name: "Analytics Home", createdBy: admin.id });
+  const away = await storage.createTeam({ name: "Analytics Away", createdBy: admin.id });
+  const question = (questionText: string) => storage.createQuestion({
+    questionText, optionA: "a", optionB: "b", optionC: "c", optionD: "d", correctAnswer: "A",
+    subject: "Analytics", difficulty: "easy", mode: "competition", competitionId: competition.id,
+  });
+  const [tricky, voided] = [await question("Tricky question"), await question("Broken question")];
+
+  const playedMatch = async (revision: number, picks: string[]) => {
+    const match = await storage.createMatch({
+      competitionId: competition.id, homeTeamId: home.id, awayTeamId: away.id, round: revision,
+      scheduledAt: new Date(), status: "completed",
+    });
+    await storage.createMatchQuestions([
+      { matchId: match.id, questionId: tricky.id, questionRevision: revision, questionOrder: 1 },
+      { matchId: match.id, questionId: voided.id, questionRevision: voided.revision, questionOrder: 2 },
+    ]);
+    for (let i = 0; i < picks.length; i++) {
+      const player = await storage.createUser({ username: `analytics-${match.id}-${i}`, email: `analytics-${match.id}-${i}@example.com`, password: "secret" });
+      for (const questionId of [tricky.id, voided.id]) {
+        await storage.submitAnswer({
+          matchId: match.id, questionId, userId: player.id, teamId: home.id, answer: picks[i],
+          isCorrect: false, timeTaken: 4000, points: 0,
+        });
+      }
+    }
+    await voidQuestion(match, voided.id);
+  };
+
+  await playedMatch(1, ["A", "A", "B", "B", "B", "B", "B", "B", "B", "B"]);
+  await storage.reviseQuestion(tricky.id, { correctAnswer: "B" }, admin.id);
+  await playedMatch(2, ["B"]);
+
+  const report = await getQuestionAnalytics({ competitionId: competition.id });
+  assert.deepEqual(report.questions.map(q => [q.questionId, q.revision]), [[tricky.id, 1], [tricky.id, 2]]);
+
+  const [original, corrected] = report.questions;
+  assert.deepEqual([original.answers, original.percentCorrect, original.averageTimeTaken], [10, 20, 4]);
+  assert.equal(original.observedDifficulty, "hard");
+  assert.deepEqual(original.flags, ["difficulty_mismatch", "popular_distractor"]);
+  assert.deepEqual(original.options.map(o => [o.count, o.isCorrect]), [[2, true], [8, false], [0, false], [0, false]]);
+
+  assert.deepEqual([corrected.answers, corrected.percentCorrect], [1, 100]);
+  // Too few answers to judge
+  assert.deepEqual([corrected.observedDifficulty, corrected.flags], [null, []]);
+});
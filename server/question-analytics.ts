@@ -0,0 +1,178 @@
+import type {
+  AnswerOptionStats, ObservedDifficulty, PlayerAnswer, Question, QuestionAnalytics, QuestionAnalyticsFilters,
+  QuestionAnalyticsReport, QuestionQualityFlag,
+} from "@shared/schema";
+import { formatAnswer, getQuestionPayload, gradeAnswer, parseIndexAnswer, toPublicPayload } from "@shared/question-types";
+import { storage } from "./storage";
+
+// Below this many answers the statistics are too noisy to flag anything
+const MIN_ANSWERS_FOR_FLAGS = 10;
+// Free-text style answers only list their most common values
+const TOP_ANSWERS = 5;
+// Questions that separate strong players from weak ones poorly (classical test theory rule of thumb)
+const LOW_DISCRIMINATION = 0.2;
+
+const percentage = (count: number, total: number) => total > 0 ? Math.round((count / total) * 100) : 0;
+
+// Share answered correctly mapped onto the tags the question form offers
+export function observedDifficulty(proportionCorrect: number): ObservedDifficulty {
+  if (proportionCorrect >= 0.7) return "easy";
+  if (proportionCorrect >= 0.4) return "medium";
+  return "hard";
+}
+
+// Point-biserial correlation between getting the question right and the
+// player's total. Null when either side has no spread to correlate
+export function pointBiserial(scores: { isCorrect: boolean; total: number }[]): number | null {
+  const n = scores.length;
+  if (n === 0) return null;
+  const correct = scores.filter(s => s.isCorrect);
+  const p = correct.length / n;
+  if (p === 0 || p === 1) return null;
+
+  const mean = scores.reduce((sum, s) => sum + s.total, 0) / n;
+  const sd = Math.sqrt(scores.reduce((sum, s) => sum + (s.total - mean) ** 2, 0) / n);
+  if (sd === 0) return null;
+
+  const meanCorrect = correct.reduce((sum, s) => sum + s.total, 0) / correct.length;
+  const wrong = scores.filter(s => !s.isCorrect);
+  const meanWrong = wrong.reduce((sum, s) => sum + s.total, 0) / wrong.length;
+  return ((meanCorrect - meanWrong) / sd) * Math.sqrt(p * (1 - p));
+}
+
+// How often each option was picked. Choice questions list every option, even
+// unpicked ones; multi-select counts each option inside the submitted sets;
+// typed and ordering answers list their most common values
+function optionStats(question: Question, answers: PlayerAnswer[]): AnswerOptionStats[] {
+  const payload = getQuestionPayload(question);
+  const publicPayload = toPublicPayload(payload, question.id);
+  const given = answers.map(a => a.answer).filter((answer): answer is string => typeof answer === "string");
+  const stat = (label: string, count: number, isCorrect: boolean) =>
+    ({ label, count, percentage: percentage(count, answers.length), isCorrect });
+
+  switch (payload.type) {
+    case "multiple_choice":
+      return payload.options.map(option => stat(
+        formatAnswer(publicPayload, option.key),
+        given.filter(answer => answer === option.key).length,
+        option.key === payload.answer
+      ));
+    case "true_false":
+      return ["true", "false"].map(key => stat(
+        formatAnswer(publicPayload, key),
+        given.filter(answer => answer === key).length,
+        key === String(payload.answer)
+      ));
+    case "multi_select":
+      return payload.options.map((option, index) => stat(
+        option,
+        given.filter(answer => parseIndexAnswer(answer).includes(index)).length,
+        payload.answers.includes(index)
+      ));
+    default: {
+      const counts = new Map<string, number>();
+      for (const answer of given) counts.set(answer, (counts.get(answer) ?? 0) + 1);
+      return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_ANSWERS)
+        .map(([answer, count]) => stat(formatAnswer(publicPayload, answer), count, gradeAnswer(question, answer)));
+    }
+  }
+}
+
+// Each answer paired with the player's total in that match, leaving the
+// question itself out so it does not correlate with its own result
+function playerTotals(answers: PlayerAnswer[], matchTotals: Map<string, number>) {
+  return answers.map(answer => ({
+    isCorrect: answer.isCorrect,
+    total: (matchTotals.get(`${answer.matchId}:${answer.userId}`) ?? 0) - (answer.isCorrect ? 1 : 0),
+  }));
+}
+
+function analyseQuestion(
+  question: Question,
+  answers: PlayerAnswer[],
+  matchTotals: Map<string, number>
+): QuestionAnalytics {
+  const correct = answers.filter(a => a.isCorrect).length;
+  const timed = answers.filter(a => a.timeTaken !== null);
+  const enoughAnswers = answers.length >= MIN_ANSWERS_FOR_FLAGS;
+
+  const discrimination = enoughAnswers ? pointBiserial(playerTotals(answers, matchTotals)) : null;
+  const observed = enoughAnswers ? observedDifficulty(correct / answers.length) : null;
+  const options = optionStats(question, answers);
+
+  const flags: QuestionQualityFlag[] = [];
+  if (observed && observed !== question.difficulty) flags.push("difficulty_mismatch");
+  if (discrimination !== null && discrimination < 0) flags.push("negative_discrimination");
+  else if (discrimination !== null && discrimination < LOW_DISCRIMINATION) flags.push("low_discrimination");
+  // A wrong option beating the right one usually means a misleading option or a wrong key
+  if (enoughAnswers && (question.type === "multiple_choice" || question.type === "true_false")) {
+    const key = options.find(o => o.isCorrect);
+    if (key && options.some(o => !o.isCorrect && o.count > key.count)) flags.push("popular_distractor");
+  }
+
+  return {
+    questionId: question.id,
+    revision: question.revision,
+    questionText: question.questionText,
+    type: question.type,
+    subject: question.subject,
+    difficulty: question.difficulty,
+    answers: answers.length,
+    percentCorrect: percentage(correct, answers.length),
+    averageTimeTaken: timed.length > 0
+      ? Math.round(timed.reduce((sum, a) => sum + (a.timeTaken ?? 0), 0) / timed.length / 100) / 10
+      : null,
+    observedDifficulty: observed,
+    discrimination: discrimination === null ? null : Math.round(discrimination * 100) / 100,
+    options,
+    flags,
+  };
+}
+
+// Statistics for every question answered in a completed match, flagged
+// questions first. Answers are graded against the revision their match asked,
+// and questions voided in a match are left out for that match
+export async function getQuestionAnalytics(filters: QuestionAnalyticsFilters): Promise<QuestionAnalyticsReport> {
+  const competitionIds = filters.competitionId
+    ? [filters.competitionId]
+    : (await storage.getAllCompetitions()).map(c => c.id);
+
+  const graded: { answer: PlayerAnswer; question: Question }[] = [];
+  for (const competitionId of competitionIds) {
+    for (const match of await storage.getMatchesByCompetition(competitionId)) {
+      if (match.status !== "completed") continue;
+      const asked = new Map((await storage.getMatchQuestions(match.id)).map(q => [q.id, q]));
+      const voided = new Set(await storage.getVoidedQuestionIds(match.id));
+      for (const answer of await storage.getAnswersByMatch(match.id)) {
+        const question = asked.get(answer.questionId);
+        if (!question || voided.has(answer.questionId)) continue;
+        graded.push({ answer: { ...answer, isCorrect: gradeAnswer(question, answer.answer) }, question });
+      }
+    }
+  }
+
+  // Correct answers per player per match; a match is the test each total comes from
+  const matchTotals = new Map<string, number>();
+  const byRevision = new Map<string, { question: Question; answers: PlayerAnswer[] }>();
+  for (const { answer, question } of graded) {
+    const totalKey = `${answer.matchId}:${answer.userId}`;
+    matchTotals.set(totalKey, (matchTotals.get(totalKey) ?? 0) + (answer.isCorrect ? 1 : 0));
+    const revisionKey = `${question.id}:${question.revision}`;
+    if (!byRevision.has(revisionKey)) byRevision.set(revisionKey, { question, answers: [] });
+    byRevision.get(revisionKey)!.answers.push(answer);
+  }
+
+  const analytics: QuestionAnalytics[] = [];
+  for (const { question, answers } of Array.from(byRevision.values())) {
+    if (filters.subject && question.subject !== filters.subject) continue;
+    analytics.push(analyseQuestion(question, answers, matchTotals));
+  }
+
+  return {
+    minAnswers: MIN_ANSWERS_FOR_FLAGS,
+    questions: analytics.sort((a, b) => b.flags.length - a.flags.length || b.answers - a.answers),
+    subjects: await storage.getQuestionSubjects(),
+  };
+}
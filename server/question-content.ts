@@ -0,0 +1,48 @@
+import katex from "katex";
+import type { InsertQuestion } from "@shared/schema";
+import { collectRichContent } from "@shared/rich-content";
+import { questionImageExists } from "./uploads";
+
+type QuestionContent = Pick<InsertQuestion, "questionText" | "optionA" | "optionB" | "optionC" | "optionD" | "payload" | "explanation">;
+
+// Every rich-content field of a question with the name used in error messages
+function contentFields(question: QuestionContent): [string, string][] {
+  const fields: [string, string | null | undefined][] = [
+    ["Question", question.questionText],
+    ["Option A", question.optionA],
+    ["Option B", question.optionB],
+    ["Option C", question.optionC],
+    ["Option D", question.optionD],
+  ];
+  const payload = question.payload;
+  if (payload?.type === "multi_select") {
+    payload.options.forEach((option, i) => fields.push([`Option ${i + 1}`, option]));
+  }
+  if (payload?.type === "ordering") {
+    payload.items.forEach((item, i) => fields.push([`Item ${i + 1}`, item]));
+  }
+  fields.push(["Explanation", question.explanation]);
+  return fields.filter((field): field is [string, string] => !!field[1]);
+}
+
+// Checks that all LaTeX in a question compiles and that images point at
+// uploaded files, so nothing broken reaches players mid-match
+export function questionContentError(question: QuestionContent): string | null {
+  for (const [label, text] of contentFields(question)) {
+    const { math, images, rejectedImages } = collectRichContent(text);
+    if (rejectedImages.length > 0) {
+      return `${label}: images must be uploaded through the question editor`;
+    }
+    const missing = images.find(src => !questionImageExists(src));
+    if (missing) return `${label}: image ${missing} was not found`;
+
+    for (const tex of math) {
+      try {
+        katex.renderToString(tex, { throwOnError: true, strict: "ignore" });
+      } catch (error) {
+        return `${label}: ${error instanceof Error ? error.message : "invalid LaTeX"}`;
+      }
+    }
+  }
+  return null;
+}
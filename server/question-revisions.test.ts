@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { toRevisionContent, type Match } from "@shared/schema";
+import { storage } from "./storage";
+import { advanceKnockoutWinner, generateFixtures } from "./fixtures";
+import { diffRevisionContent, getRevisionHistory, regradeQuestion } from "./question-revisions";
+
+let seeded = 0;
+
+async function seed() {
+  const n = ++seeded;
+  const admin = await storage.createUser({ username: `editor${n}`, email: `editor${n}@example.com`, password: "secret", role: "admin" });
+  const competition = await storage.createCompetition({
+    name: `Revision Cup ${n}`,
+    registrationFee: "0",
+    startDate: new Date(),
+    endDate: new Date(),
+    registrationDeadline: new Date(),
+  });
+  const teams = [];
+  for (let i = 1; i <= 4; i++) {
+    const team = await storage.createTeam({ name: `Revision Team ${n}-${i}`, createdBy: admin.id });
+    await storage.registerTeam({ competitionId: competition.id, teamId: team.id, paidBy: admin.id });
+    teams.push(team);
+  }
+  const question = await storage.createQuestion({
+    questionText: `Capital of France ${n}`, optionA: "Paris", optionB: "Lyon", optionC: "Nice", optionD: "Lille",
+    correctAnswer: "B", subject: "Geography", difficulty: "easy", mode: "competition",
+  }, admin.id);
+  return { n, admin, competition, teams, question };
+}
+
+async function askIn(match: Match, questionId: string, revision: number, answers: [string, string]) {
+  await storage.createMatchQuestions([{ matchId: match.id, questionId, questionRevision: revision, questionOrder: 99 }]);
+  for (const [teamId, answer] of [[match.homeTeamId, answers[0]], [match.awayTeamId, answers[1]]]) {
+    const player = await storage.createUser({ username: `player-${teamId}-${match.id}`, email: `${teamId}-${match.id}@example.com`, password: "secret" });
+    await storage.submitAnswer({
+      matchId: match.id, questionId, userId: player.id, teamId, answer,
+      isCorrect: answer === "B", timeTaken: 1000, points: answer === "B" ? 1 : 0, questionRevision: revision,
+    });
+  }
+}
+
+test("edits only list the fields they change", async () => {
+  const question = await storage.createQuestion({
+    questionText: "Sides on a triangle", type: "numeric", payload: { type: "numeric", answer: 3, tolerance: 0 },
+    subject: "Maths", difficulty: "easy", mode: "competition",
+  });
+  const before = toRevisionContent(question);
+  assert.deepEqual(diffRevisionContent(before, { subject: "Maths", questionText: "Sides on a triangle?" }), [
+    { field: "questionText", before: "Sides on a triangle", after: "Sides on a triangle?" },
+  ]);
+  // Key order in stored JSON is not a change
+  assert.deepEqual(diffRevisionContent(before, { payload: { tolerance: 0, answer: 3, type: "numeric" } }), []);
+});
+
+test("the history lists each revision newest first with who changed what", async () => {
+  const { admin, question } = await seed();
+  await storage.reviseQuestion(question.id, { correctAnswer: "A" }, admin.id);
+
+  const history = await getRevisionHistory(question.id);
+  assert.deepEqual(history.map(h => h.revision), [2, 1]);
+  assert.deepEqual(history[0].changes, [{ field: "correctAnswer", before: "B", after: "A" }]);
+  assert.equal(history[0].editedBy?.username, admin.username);
+  assert.deepEqual(history[1].changes, []);
+});
+
+test("a corrected key regrades completed matches only after the dry run", async () => {
+  const { admin, competition, teams, question } = await seed();
+  const match = await storage.createMatch({
+    competitionId: competition.id, homeTeamId: teams[0].id, awayTeamId: teams[1].id, round: 1, scheduledAt: new Date(), status: "completed",
+  });
+  const live = await storage.createMatch({
+    competitionId: competition.id, homeTeamId: teams[2].id, awayTeamId: teams[3].id, round: 1, scheduledAt: new Date(), status: "live",
+  });
+  await askIn(match, question.id, question.revision, ["A", "B"]);
+  await askIn(live, question.id, question.revision, ["A", "B"]);
+  const corrected = (await storage.reviseQuestion(question.id, { correctAnswer: "A" }, admin.id))!;
+
+  const preview = await regradeQuestion(corrected, admin.id, true);
+  assert.deepEqual(preview, { dryRun: true, revision: 2, answers: 2, changed: 2, matches: 1, lockedMatches: 0 });
+  assert.deepEqual((await storage.getAnswersByMatch(match.id)).map(a => a.isCorrect).sort(), [false, true]);
+  assert.equal((await storage.getMatch(match.id))?.homeScore, 0);
+
+  await regradeQuestion(corrected, admin.id, false);
+  const regraded = await storage.getAnswersByMatch(match.id);
+  assert.ok(regraded.every(a => a.questionRevision === 2));
+  assert.equal(regraded.find(a => a.teamId === teams[0].id)?.isCorrect, true);
+  const rescored = await storage.getMatch(match.id);
+  assert.ok(rescored!.homeScore > rescored!.awayScore);
+  assert.equal((await storage.getMatchQuestions(match.id)).find(q => q.id === question.id)?.correctAnswer, "A");
+  assert.ok((await storage.getAnswersByMatch(live.id)).every(a => a.questionRevision === 1));
+});
+
+test("a regrade is refused once it would change a knockout result that has been played on", async () => {
+  const { admin, competition, question } = await seed();
+  const [first, second] = await generateFixtures(competition, "knockout");
+  await askIn(first, question.id, question.revision, ["A", "B"]);
+  for (const match of [first, second]) {
+    await advanceKnockoutWinner((await storage.updateMatch(match.id, { status: "completed", homeScore: 2, awayScore: 1 }))!);
+  }
+  const final = (await storage.getMatchesByCompetition(competition.id)).find(m => m.round === 2)!;
+  await storage.updateMatch(final.id, { status: "live" });
+  const corrected = (await storage.reviseQuestion(question.id, { correctAnswer: "A" }, admin.id))!;
+
+  const preview = await regradeQuestion(corrected, admin.id, true);
+  assert.equal(typeof preview === "string" ? preview : preview.lockedMatches, 1);
+  assert.match(String(await regradeQuestion(corrected, admin.id, false)), /next round has already started/);
+  assert.equal((await storage.getAnswersByMatch(first.id)).find(a => a.answer === "A")?.isCorrect, false);
+});
@@ -0,0 +1,120 @@
+import {
+  questionRevisionFields,
+  type Match, type Question, type QuestionRegradeResult, type QuestionRevisionChange,
+  type QuestionRevisionContent, type QuestionRevisionEntry,
+} from "@shared/schema";
+import { gradeAnswer } from "@shared/question-types";
+import { storage } from "./storage";
+import { knockoutAmendmentError, reresolveKnockoutWinner } from "./fixtures";
+import { rescoreMatch } from "./scoring";
+import { recomputeStandings } from "./standings";
+
+// Postgres does not keep JSON key order, so objects are compared with sorted keys
+function displayValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+}
+
+// Fields an edit actually changes; fields missing from the edit are left alone
+export function diffRevisionContent(
+  before: QuestionRevisionContent,
+  after: Partial<QuestionRevisionContent>
+): QuestionRevisionChange[] {
+  return questionRevisionFields
+    .filter(field => after[field] !== undefined)
+    .map(field => ({ field, before: displayValue(before[field]), after: displayValue(after[field]) }))
+    .filter(change => change.before !== change.after);
+}
+
+// Newest revision first, each with what changed since the one before it
+export async function getRevisionHistory(questionId: string): Promise<QuestionRevisionEntry[]> {
+  const revisions = await storage.getQuestionRevisions(questionId);
+
+  const editors = new Map<string, { id: string; username: string }>();
+  for (const userId of Array.from(new Set(revisions.map(r => r.editedBy)))) {
+    const user = userId ? await storage.getUser(userId) : undefined;
+    if (user) editors.set(user.id, { id: user.id, username: user.username });
+  }
+
+  return revisions.map((revision, index) => ({
+    revision: revision.revision,
+    editedBy: revision.editedBy ? editors.get(revision.editedBy) ?? null : null,
+    createdAt: new Date(revision.createdAt).toISOString(),
+    changes: index === 0 ? [] : diffRevisionContent(revisions[index - 1].content, revision.content),
+  })).reverse();
+}
+
+// Re-marks every answer given in a completed match against the question's
+// current answer key, e.g. after a wrong key was corrected. Those matches are
+// re-pinned to the current revision so their reports show the corrected key,
+// then rescored along with their competition's table. Live matches keep the
+// revision they started with. Knockout results follow their bracket rules:
+// nothing is changed while a flipped answer sits in a match whose next round
+// has already started
+export async function regradeQuestion(
+  question: Question,
+  adminId: string,
+  dryRun: boolean
+): Promise<QuestionRegradeResult | string> {
+  const answers = await storage.getAnswersByQuestion(question.id);
+
+  const matches = new Map<string, Match>();
+  for (const matchId of Array.from(new Set(answers.map(a => a.matchId)))) {
+    const match = await storage.getMatch(matchId);
+    if (match?.status === "completed") matches.set(match.id, match);
+  }
+
+  const regraded = answers
+    .filter(answer => matches.has(answer.matchId))
+    .map(answer => ({ answer, isCorrect: gradeAnswer(question, answer.answer) }));
+  const changed = regraded.filter(r => r.isCorrect !== r.answer.isCorrect);
+
+  let lockedMatches = 0;
+  for (const matchId of Array.from(new Set(changed.map(r => r.answer.matchId)))) {
+    if (await knockoutAmendmentError(matches.get(matchId)!)) lockedMatches++;
+  }
+
+  const result: QuestionRegradeResult = {
+    dryRun,
+    revision: question.revision,
+    answers: regraded.length,
+    changed: changed.length,
+    matches: matches.size,
+    lockedMatches,
+  };
+  if (dryRun) return result;
+  if (lockedMatches > 0) {
+    return "Some of these answers decided knockout matches whose next round has already started";
+  }
+
+  for (const { answer, isCorrect } of regraded) {
+    await storage.updatePlayerAnswer(answer.id, { isCorrect, questionRevision: question.revision });
+  }
+
+  const competitionIds = new Set<string>();
+  for (const match of Array.from(matches.values())) {
+    await storage.pinMatchQuestionRevision(match.id, question.id, question.revision);
+    await reresolveKnockoutWinner(await rescoreMatch(match));
+    await storage.createMatchAuditEntry({
+      matchId: match.id,
+      adminId,
+      action: "regrade",
+      details: {
+        questionId: question.id,
+        revision: question.revision,
+        changed: changed.filter(r => r.answer.matchId === match.id).length,
+      },
+    });
+    competitionIds.add(match.competitionId);
+  }
+
+  for (const competitionId of Array.from(competitionIds)) {
+    await recomputeStandings(competitionId);
+  }
+  return result;
+}
@@ -0,0 +1,110 @@
+import type { Match, Question } from "@shared/schema";
+import { storage } from "./storage";
+
+export const QUESTIONS_PER_MATCH = 20;
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Picks questions round-robin across subject/difficulty buckets so no single
+// subject or difficulty dominates a match
+export function pickBalancedQuestions(pool: Question[], count: number): Question[] {
+  const buckets = new Map<string, Question[]>();
+  for (const question of shuffle(pool)) {
+    const key = `${question.subject.trim().toLowerCase()}|${question.difficulty}`;
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(question);
+  }
+
+  const queues = shuffle(Array.from(buckets.values()));
+  const picked: Question[] = [];
+  while (picked.length < count && queues.some(q => q.length > 0)) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next) picked.push(next);
+      if (picked.length >= count) break;
+    }
+  }
+  return shuffle(picked);
+}
+
+async function getCandidatePool(competitionId: string, minimum: number): Promise<Question[]> {
+  const competitionQuestions = (await storage.getQuestionsByCompetition(competitionId))
+    .filter(q => q.mode === "competition");
+  if (competitionQuestions.length >= minimum) return competitionQuestions;
+
+  // Top up from the shared competition pool when the competition's own bank is too small
+  const sharedQuestions = (await storage.getAllQuestions())
+    .filter(q => q.mode === "competition" && !q.competitionId);
+  return [...competitionQuestions, ...sharedQuestions];
+}
+
+// Returns the match's fixed question set, drawing and persisting it on first use
+export async function ensureMatchQuestions(match: Match): Promise<Question[]> {
+  const existing = await storage.getMatchQuestions(match.id);
+  if (existing.length > 0) return existing;
+
+  const pool = await getCandidatePool(match.competitionId, QUESTIONS_PER_MATCH);
+  const selected = pickBalancedQuestions(pool, QUESTIONS_PER_MATCH);
+
+  await storage.createMatchQuestions(
+    selected.map((question, index) => ({
+      matchId: match.id,
+      questionId: question.id,
+      questionRevision: question.revision,
+      questionOrder: index + 1,
+    }))
+  );
+  return selected;
+}
+
+// Fixtures draw their questions when they are created, which can be weeks
+// before kickoff. At kickoff the set is brought up to date: edited questions
+// are asked as they read now, and archived, deleted or moved-to-practice ones
+// are swapped for fresh draws while the pool has any left
+export async function refreshMatchQuestions(match: Match): Promise<Question[]> {
+  const drawn = await storage.getMatchQuestions(match.id);
+  if (drawn.length === 0) return ensureMatchQuestions(match);
+
+  const drawnIds = new Set(drawn.map(q => q.id));
+  let replacements: Question[] | undefined;
+  for (const question of drawn) {
+    const current = await storage.getQuestion(question.id);
+    if (current && !current.archivedAt && current.mode === "competition") {
+      if (current.revision !== question.revision) {
+        await storage.pinMatchQuestionRevision(match.id, current.id, current.revision);
+      }
+      continue;
+    }
+
+    replacements ??= shuffle((await getCandidatePool(match.competitionId, drawn.length))
+      .filter(q => !drawnIds.has(q.id)));
+    const replacement = replacements.shift();
+    if (replacement) await storage.replaceMatchQuestion(match.id, question.id, replacement);
+  }
+  return storage.getMatchQuestions(match.id);
+}
+
+// Draws one extra sudden-death question that has not been asked in this match yet
+export async function drawTieBreakerQuestion(match: Match, asked: Question[]): Promise<Question | undefined> {
+  const askedIds = new Set(asked.map(q => q.id));
+  const pool = (await getCandidatePool(match.competitionId, asked.length + 1))
+    .filter(q => !askedIds.has(q.id));
+  if (pool.length === 0) return undefined;
+
+  const question = pool[Math.floor(Math.random() * pool.length)];
+  await storage.createMatchQuestions([{
+    matchId: match.id,
+    questionId: question.id,
+    questionRevision: question.revision,
+    questionOrder: asked.length + 1,
+    isTieBreaker: true,
+  }]);
+  return question;
+}
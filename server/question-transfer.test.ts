@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { importQuestions, serializeQuestions } from "./question-transfer";
+
+let seeded = 0;
+
+async function admin() {
+  const n = ++seeded;
+  const user = await storage.createUser({ username: `importer${n}`, email: `importer${n}@example.com`, password: "secret", role: "admin" });
+  return { n, user };
+}
+
+test("an exported CSV imports back as the same questions", async () => {
+  const { n, user } = await admin();
+  const question = await storage.createQuestion({
+    questionText: `=2+2 makes four (transfer ${n})`, optionA: "Yes", optionB: "No", optionC: "Maybe", optionD: "Never",
+    correctAnswer: "A", explanation: "-1 would not", subject: "Maths", difficulty: "easy", mode: "competition",
+  });
+  const csv = serializeQuestions([question], "csv");
+  assert.match(csv, /'=2\+2/);
+
+  const again = await importQuestions("csv", csv, true, user.id);
+  assert.ok(typeof again !== "string");
+  assert.deepEqual(again.duplicates, [{ row: 1, questionText: question.questionText, existing: true }]);
+
+  const renamed = await importQuestions("csv", csv.replace("transfer", "renamed"), false, user.id);
+  assert.ok(typeof renamed !== "string");
+  assert.equal(renamed.imported, 1);
+  assert.equal(renamed.preview[0].questionText, `=2+2 makes four (renamed ${n})`);
+  assert.equal(renamed.preview[0].explanation, "-1 would not");
+  assert.ok((await storage.getQuestionTexts()).includes(renamed.preview[0].questionText));
+});
+
+test("each row is validated on its own, repeats in the file are skipped and a dry run writes nothing", async () => {
+  const { n, user } = await admin();
+  const csv = [
+    "questionText,optionA,optionB,optionC,optionD,correctAnswer,subject,mode",
+    `Largest planet ${n},Jupiter,Mars,Venus,Earth,a,Space,competition`,
+    `Smallest planet ${n},Mercury,Mars,Venus,Earth,E,Space,competition`,
+    `  largest   PLANET ${n},Jupiter,Mars,Venus,Earth,A,Space,competition`,
+  ].join("\n");
+
+  const result = await importQuestions("csv", csv, true, user.id);
+  assert.ok(typeof result !== "string");
+  assert.equal(result.total, 3);
+  assert.equal(result.imported, 1);
+  assert.equal(result.preview[0].correctAnswer, "A");
+  assert.deepEqual(result.errors, [{ row: 2, messages: ["correctAnswer: Must be A, B, C or D"] }]);
+  assert.deepEqual(result.duplicates.map(d => [d.row, d.existing]), [[3, false]]);
+  assert.ok(!(await storage.getQuestionTexts()).includes(`Largest planet ${n}`));
+
+  assert.equal(await importQuestions("csv", "questionText,subject\nQ,S", true, user.id), "Missing column(s): mode");
+});
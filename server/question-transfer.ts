@@ -0,0 +1,171 @@
+import { z } from "zod";
+import {
+  insertQuestionSchema,
+  questionShapeError,
+  type InsertQuestion,
+  type Question,
+  type QuestionFileFormat,
+  type QuestionImportResult,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { parseCsv, restoreFormulaCell, toCsv } from "./csv";
+import { questionContentError } from "./question-content";
+
+// Column order for CSV files; JSON files use the same field names, so an
+// export can be edited and imported straight back
+export const QUESTION_FILE_FIELDS = [
+  "questionText",
+  "type",
+  "optionA",
+  "optionB",
+  "optionC",
+  "optionD",
+  "correctAnswer",
+  "payload",
+  "explanation",
+  "references",
+  "subject",
+  "difficulty",
+  "mode",
+  "timeLimit",
+  "competitionId",
+] as const;
+
+// Options and payload columns are only needed for the types that use them
+const REQUIRED_COLUMNS = ["questionText", "subject", "mode"];
+const PREVIEW_ROWS = 20;
+
+// The question form only offers these values, so imported rows must use them too
+const questionRowSchema = insertQuestionSchema.extend({
+  correctAnswer: z.preprocess(
+    v => typeof v === "string" ? v.trim().toUpperCase() : v,
+    z.enum(["A", "B", "C", "D"], { errorMap: () => ({ message: "Must be A, B, C or D" }) }).nullish()
+  ),
+  difficulty: z.enum(["easy", "medium", "hard"]).default("medium"),
+  competitionId: z.string().nullish(),
+});
+
+// Case, spacing and unicode form differences do not make a question new
+export function normaliseQuestionText(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Columns whose CSV cells hold JSON
+const JSON_COLUMNS: string[] = ["payload", "references"];
+
+// Anything unreadable is left for the row validation to report
+function parseJsonCell(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Returns the file's rows as plain objects, or why the file cannot be read at all
+function readQuestionFile(format: QuestionFileFormat, content: string): Record<string, unknown>[] | string {
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return "The file is not valid JSON";
+    }
+    const rows = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(rows)) return "JSON files must contain an array of questions";
+    return rows.map(row => (row && typeof row === "object" ? row : {}) as Record<string, unknown>);
+  }
+
+  const [header, ...records] = parseCsv(content);
+  if (!header) return "The file is empty";
+  const columns = header.map(column => column.trim());
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) return `Missing column(s): ${missing.join(", ")}`;
+
+  return records.map((cells) => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = restoreFormulaCell(cells[i] ?? "").trim();
+      // Blank cells fall back to the column's default
+      if (value === "") return;
+      row[column] = column === "timeLimit" && /^\d+$/.test(value) ? Number(value)
+        : JSON_COLUMNS.includes(column) ? parseJsonCell(value)
+        : value;
+    });
+    return row;
+  });
+}
+
+// Validates every row and skips questions already in the bank (or repeated in
+// the file). Nothing is written on a dry run
+export async function importQuestions(
+  format: QuestionFileFormat,
+  content: string,
+  dryRun: boolean,
+  importedBy: string
+): Promise<QuestionImportResult | string> {
+  const rows = readQuestionFile(format, content);
+  if (typeof rows === "string") return rows;
+
+  const competitionIds = new Set((await storage.getAllCompetitions()).map(c => c.id));
+  const existing = new Set((await storage.getQuestionTexts()).map(normaliseQuestionText));
+  const seen = new Set<string>();
+
+  const valid: InsertQuestion[] = [];
+  const result: QuestionImportResult = {
+    dryRun,
+    total: rows.length,
+    imported: 0,
+    preview: [],
+    duplicates: [],
+    errors: [],
+  };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const parsed = questionRowSchema.safeParse(row);
+    if (!parsed.success) {
+      result.errors.push({
+        row: rowNumber,
+        messages: parsed.error.errors.map(e => e.path.length ? `${e.path.join(".")}: ${e.message}` : e.message),
+      });
+      return;
+    }
+
+    const question = { ...parsed.data, competitionId: parsed.data.competitionId || null };
+    const shapeError = questionShapeError(question) ?? questionContentError(question);
+    if (shapeError) {
+      result.errors.push({ row: rowNumber, messages: [shapeError] });
+      return;
+    }
+    if (question.competitionId && !competitionIds.has(question.competitionId)) {
+      result.errors.push({ row: rowNumber, messages: ["competitionId: Competition not found"] });
+      return;
+    }
+
+    const key = normaliseQuestionText(question.questionText);
+    if (existing.has(key) || seen.has(key)) {
+      result.duplicates.push({ row: rowNumber, questionText: question.questionText, existing: existing.has(key) });
+      return;
+    }
+    seen.add(key);
+    valid.push(question);
+  });
+
+  if (!dryRun && valid.length > 0) {
+    await storage.createQuestions(valid, importedBy);
+  }
+  result.imported = valid.length;
+  result.preview = valid.slice(0, PREVIEW_ROWS);
+  return result;
+}
+
+export function serializeQuestions(questions: Question[], format: QuestionFileFormat): string {
+  if (format === "json") {
+    const rows = questions.map(q => Object.fromEntries(QUESTION_FILE_FIELDS.map(field => [field, q[field]])));
+    return JSON.stringify(rows, null, 2);
+  }
+  return toCsv([...QUESTION_FILE_FIELDS], questions.map(q => QUESTION_FILE_FIELDS.map(field =>
+    JSON_COLUMNS.includes(field) && q[field] ? JSON.stringify(q[field]) : q[field]
+  )));
+}
@@ -0,0 +1,98 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(createServer(app), app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+async function openSocket(cookie?: string): Promise<WebSocket> {
+  const ws = new WebSocket(`ws://${baseUrl}/ws`, { headers: cookie ? { cookie } : {} });
+  await new Promise((resolve, reject) => {
+    ws.once("open", resolve);
+    ws.once("error", reject);
+  });
+  return ws;
+}
+
+function nextMessage(ws: WebSocket, type: string): Promise<any> {
+  return new Promise((resolve) => {
+    const onMessage = (data: Buffer) => {
+      const message = JSON.parse(data.toString());
+      if (message.type !== type) return;
+      ws.off("message", onMessage);
+      resolve(message);
+    };
+    ws.on("message", onMessage);
+  });
+}
+
+test("malformed match messages are answered with an error frame", async () => {
+  const ws = await openSocket();
+  const error = nextMessage(ws, "error");
+  ws.send(JSON.stringify({ type: "submit_answer", matchId: "m1", questionId: "q1", answer: 42 }));
+  assert.match((await error).message, /string/);
+
+  const tooLong = nextMessage(ws, "error");
+  ws.send(JSON.stringify({ type: "propose_answer", matchId: "m1", questionId: "q1", answer: "x".repeat(20000) }));
+  assert.equal((await tooLong).message, "Answer is too long");
+  ws.close();
+});
+
+// Registers through the API and returns the user with their session cookie
+async function signUp(name: string) {
+  const res = await fetch(`http://${baseUrl}/api/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: name, email: `${name}@example.com`, password: "secret123" }),
+  });
+  const { user } = await res.json();
+  return { user, cookie: res.headers.get("set-cookie")!.split(";")[0] };
+}
+
+test("sockets play as their session's user and everyone else only spectates", async () => {
+  const { user, cookie } = await signUp("ws-player");
+  const competition = await storage.createCompetition({
+    name: "Socket Cup", registrationFee: "0", startDate: new Date(), endDate: new Date(), registrationDeadline: new Date(),
+  });
+  const home = await storage.createTeam({ name: "Socket Home", createdBy: user.id });
+  const away = await storage.createTeam({ name: "Socket Away", createdBy: user.id });
+  await storage.addTeamMember({ teamId: home.id, userId: user.id });
+  const match = await storage.createMatch({
+    competitionId: competition.id, homeTeamId: home.id, awayTeamId: away.id, round: 1, scheduledAt: new Date(), status: "waiting",
+  });
+
+  const player = await openSocket(cookie);
+  const joined = nextMessage(player, "joined");
+  player.send(JSON.stringify({ type: "join_match", matchId: match.id }));
+  assert.deepEqual([(await joined).role, (await joined).teamId], ["player", home.id]);
+
+  // Ids in the message are not trusted, only the session is
+  const anonymous = await openSocket();
+  const watching = nextMessage(anonymous, "joined");
+  anonymous.send(JSON.stringify({ type: "join_match", matchId: match.id, userId: user.id, teamId: home.id }));
+  assert.deepEqual([(await watching).role, (await watching).teamId], ["spectator", null]);
+
+  const refused = nextMessage(anonymous, "error");
+  anonymous.send(JSON.stringify({ type: "submit_answer", matchId: match.id, questionId: "q1", answer: "A" }));
+  assert.equal((await refused).message, "Only players in this match can submit answers");
+  player.close();
+  anonymous.close();
+});
@@ -1,16 +1,37 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import session from "express-session";
 import MemoryStore from "memorystore";
 import pgSession from "connect-pg-simple";
 import bcrypt from "bcrypt";
-import { storage } from "./storage";
+import { storage, isUniqueViolation } from "./storage";
 import { pool } from "./db";
+import { MatchEngine } from "./match-engine";
+import { createMatchBus, type MatchEnvelope } from "./match-bus";
+import { buildMatchReport } from "./match-report";
+import { MatchScheduler } from "./match-scheduler";
+import { bothTeamsReady, getMatchLobby } from "./match-lobby";
+import { applyMatchResult, recomputeStandings } from "./standings";
+import { rescoreMatch, voidQuestion } from "./scoring";
+import {
+  generateFixtures, advanceKnockoutWinner, isKnockoutMatch, knockoutAmendmentError, reresolveKnockoutWinner,
+} from "./fixtures";
+import { cancelMatch, forfeitMatch, postponeMatch, rescheduleMatch } from "./fixture-changes";
+import { importQuestions, serializeQuestions } from "./question-transfer";
+import { questionContentError } from "./question-content";
+import { diffRevisionContent, getRevisionHistory, regradeQuestion } from "./question-revisions";
+import { getQuestionAnalytics } from "./question-analytics";
+import { MAX_IMAGE_BYTES, QUESTION_IMAGE_TYPES, UPLOAD_DIR, saveQuestionImage } from "./uploads";
 import { 
   insertUserSchema, insertTeamSchema, insertCompetitionSchema, 
-  insertQuestionSchema, loginSchema 
+  insertQuestionSchema, loginSchema, competitionFormatEnum, toPublicQuestion, matchControlSchema,
+  fixtureChangeSchema, rescheduleMatchSchema, walkoverSchema, updateQuestionSchema, questionSearchSchema,
+  questionImportSchema, questionExportSchema, questionRegradeSchema, questionAnalyticsFilterSchema,
+  questionShapeError, matchSocketMessageSchema,
+  type Match, type MatchControl 
 } from "@shared/schema";
+import { answerFormatError, gradeAnswer, getAnswerKey } from "@shared/question-types";
 import { z } from "zod";
 
 declare module "express-session" {
@@ -37,14 +58,18 @@ const requireAdmin = async (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+type MatchRole = "player" | "spectator";
+
+interface SocketContext {
+  userId?: string;
+  matchId?: string;
+  teamId?: string;
+  role?: MatchRole;
+  isCaptain?: boolean;
+}
+
 const matchRooms = new Map<string, Set<WebSocket>>();
-const matchStates = new Map<string, {
-  status: "waiting" | "live" | "completed";
-  currentQuestion: number;
-  homeScore: number;
-  awayScore: number;
-  timeRemaining: number;
-}>();
+const socketContexts = new WeakMap<WebSocket, SocketContext>();
 
 export async function registerRoutes(
   httpServer: Server,
@@ -55,7 +80,7 @@ export async function registerRoutes(
     ? new pgSession({ pool })
     : new (MemoryStore(session))({ checkPeriod: 86400000 });
 
-  app.use(session({
+  const sessionParser = session({
     store: sessionStore,
     secret: process.env.SESSION_SECRET || "quiz-league-secret-key",
     resave: false,
@@ -65,106 +90,294 @@ export async function registerRoutes(
       httpOnly: true,
       maxAge: 24 * 60 * 60 * 1000, // 24 hours
     },
+  });
+  app.use(sessionParser);
+
+  // Question images use unguessable names, so they are served without a session.
+  // Missing files stop here rather than falling through to the client app
+  app.use("/uploads", express.static(UPLOAD_DIR, {
+    setHeaders: (res) => res.setHeader("X-Content-Type-Options", "nosniff"),
   }));
+  app.use("/uploads", (_req, res) => res.status(404).end());
+
+  // WebSocket server - the upgrade request goes through the same session
+  // parser so sockets are tied to the logged-in user. Anonymous sockets are
+  // accepted but can only ever spectate
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: "/ws",
+    verifyClient: (info, done) => {
+      sessionParser(info.req as Request, {} as Response, () => done(true));
+    },
+  });
+
+  wss.on("connection", (ws, req) => {
+    const context: SocketContext = { userId: (req as Request).session?.userId };
+    socketContexts.set(ws, context);
 
-  // WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+    const sendError = (message: string) => {
+      ws.send(JSON.stringify({ type: "error", message }));
+    };
 
-  wss.on("connection", (ws) => {
     ws.on("message", async (data) => {
       try {
-        const message = JSON.parse(data.toString());
+        const message = matchSocketMessageSchema.parse(JSON.parse(data.toString()));
         
         if (message.type === "join_match") {
-          const { matchId, userId } = message;
+          const { matchId } = message;
+          const match = await storage.getMatch(matchId);
+          if (!match) {
+            return sendError("Match not found");
+          }
+          
+          // Only members of the two competing teams may play, everyone else watches
+          let teamId: string | undefined;
+          if (context.userId && await storage.isTeamMember(match.homeTeamId, context.userId)) {
+            teamId = match.homeTeamId;
+          } else if (context.userId && await storage.isTeamMember(match.awayTeamId, context.userId)) {
+            teamId = match.awayTeamId;
+          }
+          
+          if (context.matchId && context.matchId !== matchId) {
+            await leaveMatchRoom(ws, context);
+          }
+          context.matchId = matchId;
+          context.teamId = teamId;
+          context.role = teamId ? "player" : "spectator";
+          const captain = teamId
+            ? (await storage.getTeamMembers(teamId)).find(m => m.isCaptain)
+            : undefined;
+          context.isCaptain = !!captain && captain.userId === context.userId;
           
           if (!matchRooms.has(matchId)) {
             matchRooms.set(matchId, new Set());
           }
           matchRooms.get(matchId)!.add(ws);
+          if (teamId && context.userId) {
+            await storage.saveMatchPresence({
+              matchId,
+              userId: context.userId,
+              teamId,
+              instanceId: matchEngine.instanceId,
+            });
+          }
+          
+          ws.send(JSON.stringify({
+            type: "joined",
+            role: context.role,
+            teamId: context.teamId ?? null,
+            isCaptain: context.isCaptain,
+            // Teams without a captain let any member lock in the team answer
+            canLockIn: !!teamId && (!captain || context.isCaptain),
+          }));
           
-          const state = matchStates.get(matchId) || {
-            status: "waiting",
+          // Full snapshot so a reconnecting client can resume mid-question
+          const snapshot = await matchEngine.getSnapshot(matchId, context.userId, context.teamId) || {
+            status: match.status,
             currentQuestion: 0,
-            homeScore: 0,
-            awayScore: 0,
-            timeRemaining: 30,
+            homeScore: match.homeScore,
+            awayScore: match.awayScore,
+            timeRemaining: 0,
+            playerScores: await storage.getPlayerScoresByMatch(matchId),
           };
           
-          ws.send(JSON.stringify({ type: "match_state", ...state }));
+          ws.send(JSON.stringify({ type: "match_state", ...snapshot }));
+          if (match.status === "waiting") {
+            await broadcastLobby(matchId);
+          }
         }
         
-        if (message.type === "submit_answer") {
-          const { matchId, userId, questionId, answer, teamId } = message;
+        if (message.type === "set_ready") {
+          const { matchId, ready } = message;
           
-          const question = await storage.getQuestion(questionId);
+          if (context.matchId !== matchId || context.role !== "player" || !context.userId) {
+            return sendError("Only players in this match can ready up");
+          }
           const match = await storage.getMatch(matchId);
+          if (!match || match.status !== "waiting") {
+            return sendError("This match has already started");
+          }
           
-          if (question && match) {
-            const isCorrect = answer === question.correctAnswer;
-            await storage.submitAnswer({
-              matchId,
-              questionId,
-              userId,
-              teamId,
-              answer,
-              isCorrect,
-              timeTaken: message.timeTaken,
-            });
-            
-            ws.send(JSON.stringify({ type: "answer_result", isCorrect }));
-            
-            // Calculate team scores from answers
-            const answers = await storage.getAnswersByMatch(matchId);
-            let homeScore = 0;
-            let awayScore = 0;
-            
-            for (const ans of answers) {
-              if (ans.isCorrect) {
-                if (ans.teamId === match.homeTeamId) homeScore++;
-                else if (ans.teamId === match.awayTeamId) awayScore++;
-              }
-            }
-            
-            // Update match scores in database
-            await storage.updateMatch(matchId, { homeScore, awayScore });
-            
-            // Update in-memory state
-            const state = matchStates.get(matchId);
-            if (state) {
-              state.homeScore = homeScore;
-              state.awayScore = awayScore;
-            }
-            
-            const playerScores = await storage.getPlayerScoresByMatch(matchId);
-            broadcastToMatch(matchId, {
-              type: "score_update",
-              playerScores,
-              homeScore,
-              awayScore,
-            });
+          await storage.setMatchPresenceReady(matchId, context.userId, ready);
+          await broadcastLobby(matchId);
+        }
+        
+        if (message.type === "submit_answer") {
+          const { matchId, questionId, answer } = message;
+          
+          if (context.matchId !== matchId || context.role !== "player" || !context.teamId || !context.userId) {
+            return sendError("Only players in this match can submit answers");
+          }
+          
+          const result = await matchEngine.submitAnswer(matchId, {
+            userId: context.userId,
+            teamId: context.teamId,
+            questionId,
+            answer,
+          });
+          
+          if (!result.accepted) {
+            return sendError(result.reason);
+          }
+          ws.send(JSON.stringify({
+            type: "answer_result",
+            isCorrect: result.isCorrect,
+            timeTaken: result.timeTaken,
+            points: result.points,
+          }));
+        }
+        
+        if (message.type === "propose_answer") {
+          const { matchId, questionId, answer } = message;
+          
+          if (context.matchId !== matchId || context.role !== "player" || !context.teamId || !context.userId) {
+            return sendError("Only players in this match can propose answers");
+          }
+          
+          const rejection = await matchEngine.proposeAnswer(matchId, {
+            userId: context.userId,
+            teamId: context.teamId,
+            questionId,
+            answer,
+          });
+          if (rejection) {
+            return sendError(rejection);
           }
         }
       } catch (error) {
+        if (error instanceof z.ZodError) {
+          return sendError(error.errors[0].message);
+        }
         console.error("WebSocket message error:", error);
       }
     });
 
     ws.on("close", () => {
-      matchRooms.forEach((clients, matchId) => {
-        clients.delete(ws);
-        if (clients.size === 0) {
-          matchRooms.delete(matchId);
-        }
+      leaveMatchRoom(ws, context).catch((error) => {
+        console.error("Failed to leave match room:", error);
       });
     });
   });
 
-  function broadcastToMatch(matchId: string, message: any) {
+  // Drops the socket from its room and clears the player's presence once
+  // they have no other socket open in that match on this instance
+  async function leaveMatchRoom(ws: WebSocket, context: SocketContext) {
+    const { matchId, userId } = context;
+    if (!matchId) return;
+
+    const clients = matchRooms.get(matchId);
+    clients?.delete(ws);
+    if (clients && clients.size === 0) {
+      matchRooms.delete(matchId);
+    }
+
+    if (context.role === "player" && userId) {
+      const stillConnected = Array.from(clients ?? []).some(c => socketContexts.get(c)?.userId === userId);
+      if (!stillConnected) {
+        await storage.deleteMatchPresence(matchId, userId);
+        await broadcastLobby(matchId);
+      }
+    }
+  }
+
+  // Void and score adjustments after the final whistle rescore the match and rebuild the table
+  async function amendCompletedMatch(match: Match, command: MatchControl, adminId: string): Promise<string | null> {
+    const bracketError = await knockoutAmendmentError(match);
+    if (bracketError) return bracketError;
+
+    let amended: Match | undefined;
+    if (command.action === "void") {
+      const questions = await storage.getMatchQuestions(match.id);
+      if (!questions.some(q => q.id === command.questionId)) return "Question is not part of this match";
+      amended = await voidQuestion(match, command.questionId);
+    } else if (command.action === "adjust_score") {
+      if (command.teamId !== match.homeTeamId && command.teamId !== match.awayTeamId) {
+        return "Team is not playing in this match";
+      }
+      await storage.createScoreAdjustment({
+        matchId: match.id,
+        teamId: command.teamId,
+        points: command.points,
+        reason: command.reason,
+        createdBy: adminId,
+      });
+      amended = await rescoreMatch(match);
+    } else {
+      return "This action needs a live match";
+    }
+    // A flipped knockout result sends the other team through instead
+    if (amended) await reresolveKnockoutWinner(amended);
+    await recomputeStandings(match.competitionId);
+    return null;
+  }
+
+  async function broadcastLobby(matchId: string) {
+    const match = await storage.getMatch(matchId);
+    if (!match || match.status !== "waiting") return;
+    broadcastToMatch(matchId, { type: "lobby_update", lobby: await getMatchLobby(match) });
+  }
+
+  const matchEngine = new MatchEngine(broadcastToMatch, {
+    onComplete: async (match) => {
+      await applyMatchResult(match);
+      await advanceKnockoutWinner(match);
+    },
+    needsTieBreaker: isKnockoutMatch,
+  });
+  matchEngine.startHeartbeat();
+
+  // A forfeited match counts like a completed one for the table and the bracket
+  async function settleForfeit(match: Match) {
+    broadcastToMatch(match.id, {
+      type: "match_complete",
+      status: match.status,
+      homeScore: match.homeScore,
+      awayScore: match.awayScore,
+      forfeitedBy: match.forfeitedBy,
+    });
+    await applyMatchResult(match);
+    await advanceKnockoutWinner(match);
+  }
+
+  const matchScheduler = new MatchScheduler(matchEngine, {
+    onLobbyOpen: (match) => {
+      broadcastToMatch(match.id, { type: "lobby_open", scheduledAt: match.scheduledAt });
+    },
+    onForfeit: settleForfeit,
+    onPostpone: (match) => {
+      broadcastToMatch(match.id, { type: "fixture_changed", status: match.status, scheduledAt: match.scheduledAt });
+    },
+  });
+  matchScheduler.start();
+
+  // Match events go through the bus so sockets held by other instances receive them too
+  const matchBus = createMatchBus();
+  await matchBus.subscribe(deliverToMatch);
+
+  // Team with members reduced to what other players and spectators may see
+  async function getPublicTeam(teamId: string) {
+    const team = await storage.getTeamWithMembers(teamId);
+    if (!team) return undefined;
+    return {
+      ...team,
+      members: team.members.map(({ user }) => ({ user: { id: user.id, username: user.username } })),
+    };
+  }
+
+  function broadcastToMatch(matchId: string, message: any, teamId?: string) {
+    matchBus.publish({ matchId, message, teamId }).catch((error) => {
+      console.error("Failed to publish match event:", error);
+      // Sockets held by this instance still get it
+      deliverToMatch({ matchId, message, teamId });
+    });
+  }
+
+  function deliverToMatch({ matchId, message, teamId }: MatchEnvelope) {
     const clients = matchRooms.get(matchId);
     if (clients) {
       const data = JSON.stringify(message);
       clients.forEach((client) => {
+        if (teamId && socketContexts.get(client)?.teamId !== teamId) return;
         if (client.readyState === WebSocket.OPEN) {
           client.send(data);
         }
@@ -289,6 +502,37 @@ export async function registerRoutes(
     }
   });
 
+  // Notifications
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const notifications = await storage.getNotificationsByUser(req.session.userId!);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.session.userId!);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.session.userId!);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
   // Teams
   app.get("/api/teams", requireAuth, async (req, res) => {
     try {
@@ -337,6 +581,7 @@ export async function registerRoutes(
       await storage.addTeamMember({
         teamId: team.id,
         userId: req.session.userId!,
+        isCaptain: true,
       });
       
       res.json(team);
@@ -401,6 +646,15 @@ export async function registerRoutes(
               return { ...m, homeTeam, awayTeam };
             })
           );
+          const slots = await storage.getBracketSlots(comp.id);
+          const bracket = await Promise.all(
+            slots.map(async (slot) => {
+              const homeTeam = slot.homeTeamId ? await storage.getTeam(slot.homeTeamId) : null;
+              const awayTeam = slot.awayTeamId ? await storage.getTeam(slot.awayTeamId) : null;
+              const match = slot.matchId ? await storage.getMatch(slot.matchId) : null;
+              return { ...slot, homeTeam, awayTeam, match };
+            })
+          );
           
           return {
             ...comp,
@@ -409,6 +663,7 @@ export async function registerRoutes(
             userTeams,
             standings: standingsWithTeams,
             matches: matchesWithTeams,
+            bracket,
           };
         })
       );
@@ -495,10 +750,7 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Match not found" });
       }
       
-      const homeTeamWithMembers = await storage.getTeamWithMembers(match.homeTeamId);
-      const awayTeamWithMembers = await storage.getTeamWithMembers(match.awayTeamId);
-      
-      const questions = await storage.getQuestionsByMode("competition", 20);
+      // Questions are delivered one at a time by the match engine, never up front
       const playerScores = await storage.getPlayerScoresByMatch(match.id);
       
       const userTeams = await storage.getTeamsByUser(req.session.userId!);
@@ -507,10 +759,9 @@ export async function registerRoutes(
       res.json({
         match: {
           ...match,
-          homeTeam: homeTeamWithMembers,
-          awayTeam: awayTeamWithMembers,
+          homeTeam: await getPublicTeam(match.homeTeamId),
+          awayTeam: await getPublicTeam(match.awayTeamId),
         },
-        questions,
         userTeamId,
         playerScores,
       });
@@ -519,6 +770,60 @@ export async function registerRoutes(
     }
   });
 
+  // Read-only scoreboard for spectators, no login required
+  app.get("/api/public/matches/:id", async (req, res) => {
+    try {
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      
+      const playerScores = await storage.getPlayerScoresByMatch(match.id);
+      
+      res.json({
+        match: {
+          ...match,
+          homeTeam: await getPublicTeam(match.homeTeamId),
+          awayTeam: await getPublicTeam(match.awayTeamId),
+        },
+        playerScores,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load match" });
+    }
+  });
+
+  // Per-question breakdown and answer timeline, only once answers can no longer change
+  app.get("/api/matches/:id/report", requireAuth, async (req, res) => {
+    try {
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (match.status !== "completed") {
+        return res.status(400).json({ message: "The match report is available once the match is complete" });
+      }
+      
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const answersShown = user?.role === "admin"
+        || await storage.isTeamMember(match.homeTeamId, userId)
+        || await storage.isTeamMember(match.awayTeamId, userId);
+      const report = await buildMatchReport(match, answersShown);
+      
+      res.json({
+        match: {
+          ...match,
+          homeTeam: await getPublicTeam(match.homeTeamId),
+          awayTeam: await getPublicTeam(match.awayTeamId),
+        },
+        report,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load match report" });
+    }
+  });
+
   // Practice
   app.get("/api/practice", requireAuth, async (req, res) => {
     try {
@@ -570,7 +875,7 @@ export async function registerRoutes(
         status: "active",
       });
       
-      res.json({ session, questions });
+      res.json({ session, questions: questions.map(toPublicQuestion) });
     } catch (error) {
       res.status(500).json({ message: "Failed to start practice" });
     }
@@ -580,22 +885,35 @@ export async function registerRoutes(
     try {
       const { sessionId, questionId, answer } = req.body;
       
+      const session = await storage.getPracticeSession(sessionId);
+      if (!session || session.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Practice session not found" });
+      }
+      
+      // Only practice questions may be answered here, otherwise this would
+      // reveal competition answers
       const question = await storage.getQuestion(questionId);
-      if (!question) {
+      if (!question || question.mode !== "practice") {
         return res.status(404).json({ message: "Question not found" });
       }
       
-      const isCorrect = answer === question.correctAnswer;
-      const session = await storage.getPracticeSession(sessionId);
-      
-      if (session) {
-        await storage.updatePracticeSession(sessionId, {
-          score: session.score + (isCorrect ? 1 : 0),
-          totalQuestions: session.totalQuestions + 1,
-        });
+      const formatError = answerFormatError(question, answer);
+      if (formatError) {
+        return res.status(400).json({ message: formatError });
       }
       
-      res.json({ isCorrect, correctAnswer: question.correctAnswer });
+      const isCorrect = gradeAnswer(question, answer);
+      await storage.updatePracticeSession(sessionId, {
+        score: session.score + (isCorrect ? 1 : 0),
+        totalQuestions: session.totalQuestions + 1,
+      });
+      
+      res.json({
+        isCorrect,
+        correctAnswer: getAnswerKey(question),
+        explanation: question.explanation,
+        references: question.references,
+      });
     } catch (error) {
       res.status(500).json({ message: "Failed to submit answer" });
     }
@@ -668,7 +986,12 @@ export async function registerRoutes(
   app.get("/api/admin", requireAdmin, async (req, res) => {
     try {
       const data = await storage.getAdminData();
-      res.json(data);
+      // Waiting matches carry their ready-check state for the matches tab
+      const matches = await Promise.all(data.matches.map(async (match: Match) => ({
+        ...match,
+        lobby: match.status === "waiting" ? await getMatchLobby(match) : null,
+      })));
+      res.json({ ...data, matches });
     } catch (error) {
       res.status(500).json({ message: "Failed to load admin data" });
     }
@@ -687,10 +1010,61 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/admin/competitions/:id/fixtures", requireAdmin, async (req, res) => {
+    try {
+      const { format } = z.object({ format: z.enum(competitionFormatEnum.enumValues) }).parse(req.body);
+      
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+      
+      const existing = await storage.getMatchesByCompetition(competition.id);
+      if (existing.length > 0) {
+        return res.status(400).json({ message: "Fixtures have already been generated" });
+      }
+      
+      const registrations = await storage.getRegisteredTeams(competition.id);
+      if (registrations.length < 2) {
+        return res.status(400).json({ message: "At least two registered teams are required" });
+      }
+      
+      const created = await generateFixtures(competition, format);
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      // A concurrent request got there first and its schedule stands
+      if (isUniqueViolation(error)) {
+        return res.status(400).json({ message: "Fixtures have already been generated" });
+      }
+      res.status(500).json({ message: "Failed to generate fixtures" });
+    }
+  });
+
+  app.post("/api/admin/competitions/:id/standings/recompute", requireAdmin, async (req, res) => {
+    try {
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+      
+      const standings = await recomputeStandings(competition.id);
+      res.json(standings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to recompute standings" });
+    }
+  });
+
   app.post("/api/admin/questions", requireAdmin, async (req, res) => {
     try {
       const data = insertQuestionSchema.parse(req.body);
-      const question = await storage.createQuestion(data);
+      const shapeError = questionShapeError(data) ?? questionContentError(data);
+      if (shapeError) {
+        return res.status(400).json({ message: shapeError });
+      }
+      const question = await storage.createQuestion(data, req.session.userId!);
       res.json(question);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -700,32 +1074,420 @@ export async function registerRoutes(
     }
   });
 
+  // Question bank: paginated search with the subject list for the filter dropdown
+  app.get("/api/admin/questions", requireAdmin, async (req, res) => {
+    try {
+      const filters = questionSearchSchema.parse(req.query);
+      const page = await storage.searchQuestions(filters);
+      const subjects = await storage.getQuestionSubjects();
+      res.json({ ...page, subjects });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to load questions" });
+    }
+  });
+
+  // Images for question content; the body is the raw file
+  app.post(
+    "/api/admin/uploads/question-image",
+    requireAdmin,
+    express.raw({ type: QUESTION_IMAGE_TYPES, limit: MAX_IMAGE_BYTES }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Images must be PNG, JPEG, GIF or WebP" });
+        }
+        const result = await saveQuestionImage(req.body, req.headers["content-type"] ?? "");
+        if (typeof result === "string") {
+          return res.status(400).json({ message: result });
+        }
+        res.json(result);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to upload image" });
+      }
+    }
+  );
+
+  // Bulk import: validates every row and only writes when dryRun is false
+  app.post("/api/admin/questions/import", requireAdmin, async (req, res) => {
+    try {
+      const { format, content, dryRun } = questionImportSchema.parse(req.body);
+      const result = await importQuestions(format, content, dryRun, req.session.userId!);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to import questions" });
+    }
+  });
+
+  // Question quality statistics from completed matches
+  app.get("/api/admin/analytics/questions", requireAdmin, async (req, res) => {
+    try {
+      const filters = questionAnalyticsFilterSchema.parse(req.query);
+      res.json(await getQuestionAnalytics(filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to load question analytics" });
+    }
+  });
+
+  // Exports the whole filtered bank in the same formats the import accepts
+  app.get("/api/admin/questions/export", requireAdmin, async (req, res) => {
+    try {
+      const { format, ...filters } = questionExportSchema.parse(req.query);
+      const questions = await storage.findQuestions(filters);
+      res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="questions.${format}"`);
+      res.send(serializeQuestions(questions, format));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to export questions" });
+    }
+  });
+
+  app.patch("/api/admin/questions/:id", requireAdmin, async (req, res) => {
+    try {
+      const data = updateQuestionSchema.parse(req.body);
+      const existing = await storage.getQuestion(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      const updated = { ...existing, ...data };
+      const shapeError = questionShapeError(updated) ?? questionContentError(updated);
+      if (shapeError) {
+        return res.status(400).json({ message: shapeError });
+      }
+      // Saving without changes does not add an empty revision
+      if (diffRevisionContent(existing, data).length === 0) {
+        return res.json(existing);
+      }
+      const question = await storage.reviseQuestion(req.params.id, data, req.session.userId!);
+      res.json(question);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update question" });
+    }
+  });
+
+  app.get("/api/admin/questions/:id/revisions", requireAdmin, async (req, res) => {
+    try {
+      const question = await storage.getQuestion(req.params.id);
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      res.json(await getRevisionHistory(question.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load question history" });
+    }
+  });
+
+  // Re-marks past answers against the current answer key; dry runs only count them
+  app.post("/api/admin/questions/:id/regrade", requireAdmin, async (req, res) => {
+    try {
+      const { dryRun } = questionRegradeSchema.parse(req.body);
+      const question = await storage.getQuestion(req.params.id);
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      const result = await regradeQuestion(question, req.session.userId!, dryRun);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to regrade answers" });
+    }
+  });
+
+  app.post("/api/admin/questions/:id/duplicate", requireAdmin, async (req, res) => {
+    try {
+      const question = await storage.getQuestion(req.params.id);
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      const { id, revision, archivedAt, createdAt, ...copy } = question;
+      const duplicate = await storage.createQuestion(
+        { ...copy, questionText: `${question.questionText} (copy)` },
+        req.session.userId!
+      );
+      res.json(duplicate);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to duplicate question" });
+    }
+  });
+
+  app.post("/api/admin/questions/:id/archive", requireAdmin, async (req, res) => {
+    try {
+      const question = await storage.updateQuestion(req.params.id, { archivedAt: new Date() });
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      res.json(question);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to archive question" });
+    }
+  });
+
+  app.post("/api/admin/questions/:id/restore", requireAdmin, async (req, res) => {
+    try {
+      const question = await storage.updateQuestion(req.params.id, { archivedAt: null });
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      res.json(question);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore question" });
+    }
+  });
+
+  // Questions already asked in a match or answered are archived rather than
+  // deleted so match history and reports keep working
+  app.delete("/api/admin/questions/:id", requireAdmin, async (req, res) => {
+    try {
+      const question = await storage.getQuestion(req.params.id);
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      if (await storage.isQuestionInUse(question.id)) {
+        await storage.updateQuestion(question.id, { archivedAt: question.archivedAt ?? new Date() });
+        return res.json({ deleted: false, archived: true });
+      }
+      
+      await storage.deleteQuestion(question.id);
+      res.json({ deleted: true, archived: false });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete question" });
+    }
+  });
+
   app.post("/api/admin/matches/:id/start", requireAdmin, async (req, res) => {
     try {
-      const matchId = req.params.id;
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (match.status !== "waiting") {
+        return res.status(400).json({ message: "Match has already started" });
+      }
+      
+      const lobby = await getMatchLobby(match);
+      if (!req.body?.force && !bothTeamsReady(lobby, match)) {
+        return res.status(400).json({
+          message: `Both teams need at least ${lobby.minReadyPlayers} ready player(s); force-start to override`,
+        });
+      }
+      
+      await matchEngine.start(match.id);
+      
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start match" });
+    }
+  });
+
+  // Fixture changes before kick-off. Each one notifies both teams, tells anyone
+  // waiting in the lobby and is recorded in the match's audit trail
+  app.post("/api/admin/matches/:id/reschedule", requireAdmin, async (req, res) => {
+    try {
+      const { scheduledAt, reason } = rescheduleMatchSchema.parse(req.body);
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      
+      const updated = await rescheduleMatch(match, scheduledAt, reason);
+      if (!updated) {
+        return res.status(400).json({ message: "Only waiting or postponed matches can be rescheduled" });
+      }
       
-      await storage.updateMatch(matchId, {
-        status: "live",
-        startedAt: new Date(),
+      broadcastToMatch(match.id, { type: "fixture_changed", status: updated.status, scheduledAt: updated.scheduledAt });
+      await storage.createMatchAuditEntry({
+        matchId: match.id,
+        adminId: req.session.userId!,
+        action: "reschedule",
+        details: { from: match.scheduledAt, to: scheduledAt, reason },
       });
       
-      matchStates.set(matchId, {
-        status: "live",
-        currentQuestion: 0,
-        homeScore: 0,
-        awayScore: 0,
-        timeRemaining: 30,
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to reschedule match" });
+    }
+  });
+
+  app.post("/api/admin/matches/:id/postpone", requireAdmin, async (req, res) => {
+    try {
+      const { reason } = fixtureChangeSchema.parse(req.body);
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      
+      const updated = await postponeMatch(match, reason);
+      if (!updated) {
+        return res.status(400).json({ message: "Only waiting matches can be postponed" });
+      }
+      
+      broadcastToMatch(match.id, { type: "fixture_changed", status: updated.status, scheduledAt: updated.scheduledAt });
+      await storage.createMatchAuditEntry({
+        matchId: match.id,
+        adminId: req.session.userId!,
+        action: "postpone",
+        details: { reason },
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to postpone match" });
+    }
+  });
+
+  app.post("/api/admin/matches/:id/cancel", requireAdmin, async (req, res) => {
+    try {
+      const { reason } = fixtureChangeSchema.parse(req.body);
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      // A knockout tie must produce a winner for the bracket to move on
+      if (await isKnockoutMatch(match)) {
+        return res.status(400).json({ message: "Knockout matches cannot be cancelled; record a walkover instead" });
+      }
+      
+      const updated = await cancelMatch(match, reason);
+      if (!updated) {
+        return res.status(400).json({ message: "Only waiting or postponed matches can be cancelled" });
+      }
+      
+      broadcastToMatch(match.id, { type: "fixture_changed", status: updated.status, scheduledAt: updated.scheduledAt });
+      await storage.createMatchAuditEntry({
+        matchId: match.id,
+        adminId: req.session.userId!,
+        action: "cancel",
+        details: { reason },
       });
       
-      broadcastToMatch(matchId, {
-        type: "match_state",
-        status: "live",
-        currentQuestion: 0,
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to cancel match" });
+    }
+  });
+
+  // Awards the match to one side without playing it, scored with the competition's forfeit score
+  app.post("/api/admin/matches/:id/walkover", requireAdmin, async (req, res) => {
+    try {
+      const { winnerTeamId, reason } = walkoverSchema.parse(req.body);
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (winnerTeamId !== match.homeTeamId && winnerTeamId !== match.awayTeamId) {
+        return res.status(400).json({ message: "Team is not playing in this match" });
+      }
+      
+      const forfeitingTeamId = winnerTeamId === match.homeTeamId ? match.awayTeamId : match.homeTeamId;
+      const updated = await forfeitMatch(match, forfeitingTeamId, reason);
+      if (!updated) {
+        return res.status(400).json({ message: "Only waiting or postponed matches can be awarded as a walkover" });
+      }
+      
+      await settleForfeit(updated);
+      await storage.createMatchAuditEntry({
+        matchId: match.id,
+        adminId: req.session.userId!,
+        action: "walkover",
+        details: { winnerTeamId, homeScore: updated.homeScore, awayScore: updated.awayScore, reason },
       });
       
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to record walkover" });
+    }
+  });
+
+  // Live match controls: pause, resume, extend, skip, void, adjust_score, end
+  app.post("/api/admin/matches/:id/control", requireAdmin, async (req, res) => {
+    try {
+      const command = matchControlSchema.parse(req.body);
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      
+      const adminId = req.session.userId!;
+      const rejection = match.status === "live"
+        ? await matchEngine.control(match.id, command, adminId)
+        : match.status === "completed"
+          ? await amendCompletedMatch(match, command, adminId)
+          : "This action needs a live match";
+      if (rejection) {
+        return res.status(400).json({ message: rejection });
+      }
+      
+      const { action, ...details } = command;
+      await storage.createMatchAuditEntry({ matchId: match.id, adminId, action, details });
+      
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to start match" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update match" });
+    }
+  });
+
+  // Everything the control panel needs: the running order, manual adjustments and the audit trail
+  app.get("/api/admin/matches/:id/control", requireAdmin, async (req, res) => {
+    try {
+      const match = await storage.getMatch(req.params.id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      
+      const voided = new Set(await storage.getVoidedQuestionIds(match.id));
+      const questions = (await storage.getMatchQuestions(match.id)).map(q => ({
+        id: q.id,
+        questionText: q.questionText,
+        voided: voided.has(q.id),
+      }));
+      const adjustments = await storage.getScoreAdjustments(match.id);
+      const audit = await Promise.all((await storage.getMatchAuditLog(match.id)).map(async (entry) => {
+        const admin = await storage.getUser(entry.adminId);
+        return { ...entry, admin: admin ? { id: admin.id, username: admin.username } : null };
+      }));
+      
+      res.json({ questions, adjustments, audit });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load match controls" });
     }
   });
 
@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultScoringRules, type ScoringRules } from "@shared/schema";
+import { storage } from "./storage";
+import { rescoreMatch, scoreAnswer, speedBonus, voidQuestion } from "./scoring";
+
+const rules: ScoringRules = {
+  difficultyPoints: { easy: 1, medium: 2, hard: 3 },
+  speedBonus: { maxPoints: 4, fullBonusSeconds: 5, zeroBonusSeconds: 15 },
+  wrongAnswerPenalty: 1,
+  captainMultiplier: 2,
+};
+
+test("speed bonus falls off linearly between the two thresholds", () => {
+  assert.equal(speedBonus(3000, rules), 4);
+  assert.equal(speedBonus(10000, rules), 2);
+  assert.equal(speedBonus(15000, rules), 0);
+  assert.equal(speedBonus(null, rules), 0);
+});
+
+test("correct answers score difficulty points plus the speed bonus", () => {
+  assert.equal(scoreAnswer({ isCorrect: true, timeTaken: 3000 }, { difficulty: "hard" }, rules), 7);
+  assert.equal(scoreAnswer({ isCorrect: true, timeTaken: 20000 }, { difficulty: "easy" }, rules), 1);
+  // Unknown difficulties fall back to a single point
+  assert.equal(scoreAnswer({ isCorrect: true, timeTaken: 20000 }, { difficulty: "expert" }, rules), 1);
+});
+
+test("wrong answers take the penalty and captains double both", () => {
+  assert.equal(scoreAnswer({ isCorrect: false, timeTaken: 1000 }, { difficulty: "hard" }, rules), -1);
+  assert.equal(scoreAnswer({ isCorrect: false, timeTaken: 1000 }, { difficulty: "hard" }, rules, true), -2);
+  assert.equal(scoreAnswer({ isCorrect: true, timeTaken: 20000 }, { difficulty: "medium" }, rules, true), 4);
+});
+
+test("the default rules keep one point per correct answer", () => {
+  assert.equal(scoreAnswer({ isCorrect: true, timeTaken: 1000 }, { difficulty: "hard" }, defaultScoringRules), 1);
+  assert.equal(scoreAnswer({ isCorrect: false, timeTaken: 1000 }, { difficulty: "hard" }, defaultScoringRules), 0);
+});
+
+let seeded = 0;
+
+async function playedMatch() {
+  const n = ++seeded;
+  const user = await storage.createUser({ username: `host${n}`, email: `host${n}@example.com`, password: "secret" });
+  const competition = await storage.createCompetition({
+    name: "Cup",
+    registrationFee: "10",
+    startDate: new Date(),
+    endDate: new Date(),
+    registrationDeadline: new Date(),
+    scoringRules: rules,
+  });
+  const home = await storage.createTeam({ name: `Home ${n}`, createdBy: user.id });
+  const away = await storage.createTeam({ name: `Away ${n}`, createdBy: user.id });
+  const [homePlayer, awayPlayer] = [
+    await storage.createUser({ username: `home${n}`, email: `home${n}@example.com`, password: "secret" }),
+    await storage.createUser({ username: `away${n}`, email: `away${n}@example.com`, password: "secret" }),
+  ];
+  await storage.addTeamMember({ teamId: home.id, userId: homePlayer.id });
+  await storage.addTeamMember({ teamId: away.id, userId: awayPlayer.id });
+
+  const questions = [
+    await storage.createQuestion({ questionText: "First question", optionA: "a", optionB: "b", optionC: "c", optionD: "d", correctAnswer: "A", subject: "s", difficulty: "hard", mode: "competition" }),
+    await storage.createQuestion({ questionText: "Second question", optionA: "a", optionB: "b", optionC: "c", optionD: "d", correctAnswer: "B", subject: "s", difficulty: "easy", mode: "competition" }),
+  ];
+  const match = await storage.createMatch({
+    competitionId: competition.id,
+    homeTeamId: home.id,
+    awayTeamId: away.id,
+    round: 1,
+    scheduledAt: new Date(),
+    status: "completed",
+  });
+  await storage.createMatchQuestions(questions.map((q, i) => ({
+    matchId: match.id, questionId: q.id, questionRevision: q.revision, questionOrder: i + 1,
+  })));
+
+  // Stored points are stale on purpose; rescoring derives them from the rules
+  const answer = (userId: string, teamId: string, questionId: string, isCorrect: boolean) =>
+    storage.submitAnswer({ matchId: match.id, questionId, userId, teamId, answer: "A", isCorrect, timeTaken: 20000, points: 0 });
+  await answer(homePlayer.id, home.id, questions[0].id, true);
+  await answer(awayPlayer.id, away.id, questions[0].id, false);
+  await answer(homePlayer.id, home.id, questions[1].id, false);
+  await answer(awayPlayer.id, away.id, questions[1].id, true);
+
+  return { match, questions, home, away, user, homePlayer };
+}
+
+test("rescoring a match applies the competition rules and adjustments", async () => {
+  const { match, away, user } = await playedMatch();
+
+  const rescored = await rescoreMatch(match);
+  // Home: 3 for the hard question, -1 for the miss. Away: -1, then 1
+  assert.deepEqual([rescored.homeScore, rescored.awayScore], [2, 0]);
+
+  await storage.createScoreAdjustment({ matchId: match.id, teamId: away.id, points: 5, reason: "Appeal", createdBy: user.id });
+  const adjusted = await rescoreMatch(rescored);
+  assert.deepEqual([adjusted.homeScore, adjusted.awayScore], [2, 5]);
+});
+
+test("rescoring keeps the captaincy each answer was given with", async () => {
+  const { match, home, homePlayer } = await playedMatch();
+  for (const answer of await storage.getAnswersByMatch(match.id)) {
+    if (answer.teamId === home.id) await storage.updatePlayerAnswer(answer.id, { isCaptain: true });
+  }
+
+  // The home player is not the captain now, but was when they answered: (3 - 1) doubled
+  assert.equal((await storage.getTeamMembers(home.id)).find(m => m.userId === homePlayer.id)?.isCaptain, false);
+  const rescored = await rescoreMatch(match);
+  assert.deepEqual([rescored.homeScore, rescored.awayScore], [4, 0]);
+});
+
+test("voided questions score nothing", async () => {
+  const { match, questions } = await playedMatch();
+
+  const voided = await voidQuestion(match, questions[0].id);
+  assert.deepEqual([voided?.homeScore, voided?.awayScore], [-1, 1]);
+});
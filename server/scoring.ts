@@ -0,0 +1,123 @@
+import {
+  defaultScoringRules,
+  type Competition, type Match, type PlayerAnswer, type Question, type ScoreAdjustment, type ScoringRules,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+export interface MatchScores {
+  playerScores: Record<string, number>;
+  homeScore: number;
+  awayScore: number;
+}
+
+export function getScoringRules(competition: Pick<Competition, "scoringRules"> | undefined): ScoringRules {
+  return { ...defaultScoringRules, ...competition?.scoringRules };
+}
+
+// Linear falloff from maxPoints at fullBonusSeconds down to nothing at zeroBonusSeconds
+export function speedBonus(timeTakenMs: number | null, rules: ScoringRules): number {
+  const { maxPoints, fullBonusSeconds, zeroBonusSeconds } = rules.speedBonus;
+  if (maxPoints <= 0 || timeTakenMs === null) return 0;
+
+  const seconds = timeTakenMs / 1000;
+  if (seconds <= fullBonusSeconds) return maxPoints;
+  if (seconds >= zeroBonusSeconds) return 0;
+  return maxPoints * (zeroBonusSeconds - seconds) / (zeroBonusSeconds - fullBonusSeconds);
+}
+
+// Points for a single answer; captains have the multiplier applied to gains and penalties alike
+export function scoreAnswer(
+  answer: Pick<PlayerAnswer, "isCorrect" | "timeTaken">,
+  question: Pick<Question, "difficulty">,
+  rules: ScoringRules,
+  isCaptain = false
+): number {
+  const base = answer.isCorrect
+    ? (rules.difficultyPoints[question.difficulty] ?? 1) + speedBonus(answer.timeTaken, rules)
+    : 0 - rules.wrongAnswerPenalty;
+  const multiplier = isCaptain ? rules.captainMultiplier : 1;
+  return Math.round(base * multiplier);
+}
+
+// Sums stored answer points into player and team totals; admin adjustments only count towards the team
+export function tallyMatchScores(
+  answers: Pick<PlayerAnswer, "userId" | "teamId" | "points">[],
+  match: Pick<Match, "homeTeamId" | "awayTeamId">,
+  adjustments: Pick<ScoreAdjustment, "teamId" | "points">[] = []
+): MatchScores {
+  const playerScores: Record<string, number> = {};
+  let homeScore = 0;
+  let awayScore = 0;
+
+  for (const answer of answers) {
+    playerScores[answer.userId] = (playerScores[answer.userId] || 0) + answer.points;
+    if (answer.teamId === match.homeTeamId) homeScore += answer.points;
+    else if (answer.teamId === match.awayTeamId) awayScore += answer.points;
+  }
+  for (const adjustment of adjustments) {
+    if (adjustment.teamId === match.homeTeamId) homeScore += adjustment.points;
+    else if (adjustment.teamId === match.awayTeamId) awayScore += adjustment.points;
+  }
+
+  return { playerScores, homeScore, awayScore };
+}
+
+// Current totals for a match straight from storage
+export async function getMatchScores(match: Pick<Match, "id" | "homeTeamId" | "awayTeamId">): Promise<MatchScores> {
+  const answers = await storage.getAnswersByMatch(match.id);
+  const adjustments = await storage.getScoreAdjustments(match.id);
+  return tallyMatchScores(answers, match, adjustments);
+}
+
+// Maps each team in the match to its captain's user id
+export async function getTeamCaptains(match: Pick<Match, "homeTeamId" | "awayTeamId">): Promise<Map<string, string>> {
+  const captains = new Map<string, string>();
+  for (const teamId of [match.homeTeamId, match.awayTeamId]) {
+    const captain = (await storage.getTeamMembers(teamId)).find(m => m.isCaptain);
+    if (captain) captains.set(teamId, captain.userId);
+  }
+  return captains;
+}
+
+// In team mode every answer is the captain's lock-in, so the captain multiplier is not applied
+export function appliesCaptainMultiplier(
+  competition: Pick<Competition, "answerMode"> | undefined,
+  captains: Map<string, string>,
+  answer: Pick<PlayerAnswer, "userId" | "teamId">
+): boolean {
+  return competition?.answerMode !== "team" && captains.get(answer.teamId) === answer.userId;
+}
+
+// Re-applies the competition's current rules to every stored answer in a match.
+// Captaincy is taken as it was when each answer was given. Answers to voided
+// questions score nothing
+export async function rescoreMatch(match: Match): Promise<Match> {
+  const competition = await storage.getCompetition(match.competitionId);
+  const rules = getScoringRules(competition);
+  // Only consulted for answers recorded before their captaincy was stored
+  const captains = await getTeamCaptains(match);
+  const questions = new Map((await storage.getMatchQuestions(match.id)).map(q => [q.id, q]));
+  const answers = await storage.getAnswersByMatch(match.id);
+  const voided = new Set(await storage.getVoidedQuestionIds(match.id));
+
+  const rescored: PlayerAnswer[] = [];
+  for (const answer of answers) {
+    const question = questions.get(answer.questionId) || await storage.getQuestion(answer.questionId);
+    const isCaptain = answer.isCaptain ?? appliesCaptainMultiplier(competition, captains, answer);
+    const points = question && !voided.has(answer.questionId) ? scoreAnswer(answer, question, rules, isCaptain) : 0;
+    if (points !== answer.points) {
+      await storage.updatePlayerAnswer(answer.id, { points });
+    }
+    rescored.push({ ...answer, points });
+  }
+
+  const { homeScore, awayScore } = tallyMatchScores(rescored, match, await storage.getScoreAdjustments(match.id));
+  if (homeScore === match.homeScore && awayScore === match.awayScore) return match;
+  return (await storage.updateMatch(match.id, { homeScore, awayScore })) || match;
+}
+
+// Marks a question in a match as void and rescores the match without it
+export async function voidQuestion(match: Match, questionId: string): Promise<Match | undefined> {
+  if (!await storage.voidMatchQuestion(match.id, questionId)) return undefined;
+  return rescoreMatch(match);
+}
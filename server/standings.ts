@@ -0,0 +1,100 @@
+import type { Competition, Match, Standing } from "@shared/schema";
+import { storage } from "./storage";
+import { rescoreMatch } from "./scoring";
+
+type StandingTotals = Pick<
+  Standing,
+  "played" | "won" | "drawn" | "lost" | "pointsFor" | "pointsAgainst" | "goalDifference" | "leaguePoints"
+>;
+
+const emptyTotals = (): StandingTotals => ({
+  played: 0,
+  won: 0,
+  drawn: 0,
+  lost: 0,
+  pointsFor: 0,
+  pointsAgainst: 0,
+  goalDifference: 0,
+  leaguePoints: 0,
+});
+
+// Adds a single result to a team's totals using the competition's points table
+export function tallyResult(
+  totals: StandingTotals,
+  scored: number,
+  conceded: number,
+  competition: Pick<Competition, "winPoints" | "drawPoints" | "lossPoints">
+): StandingTotals {
+  const won = scored > conceded;
+  const drawn = scored === conceded;
+  const pointsFor = totals.pointsFor + scored;
+  const pointsAgainst = totals.pointsAgainst + conceded;
+
+  return {
+    played: totals.played + 1,
+    won: totals.won + (won ? 1 : 0),
+    drawn: totals.drawn + (drawn ? 1 : 0),
+    lost: totals.lost + (!won && !drawn ? 1 : 0),
+    pointsFor,
+    pointsAgainst,
+    goalDifference: pointsFor - pointsAgainst,
+    leaguePoints: totals.leaguePoints + (won ? competition.winPoints : drawn ? competition.drawPoints : competition.lossPoints),
+  };
+}
+
+async function getOrCreateStanding(competitionId: string, teamId: string): Promise<Standing> {
+  const existing = await storage.getStandingForTeam(competitionId, teamId);
+  if (existing) return existing;
+  return storage.createStanding({ competitionId, teamId, ...emptyTotals() });
+}
+
+// Called once when a match transitions to "completed" or "forfeited"
+export async function applyMatchResult(match: Match): Promise<void> {
+  const competition = await storage.getCompetition(match.competitionId);
+  if (!competition) return;
+
+  const sides = [
+    { teamId: match.homeTeamId, scored: match.homeScore, conceded: match.awayScore },
+    { teamId: match.awayTeamId, scored: match.awayScore, conceded: match.homeScore },
+  ];
+
+  for (const side of sides) {
+    const standing = await getOrCreateStanding(match.competitionId, side.teamId);
+    await storage.updateStanding(standing.id, tallyResult(standing, side.scored, side.conceded, competition));
+  }
+}
+
+// Rebuilds every standing in a competition from its decided matches,
+// re-scoring each match with the competition's current scoring rules.
+// Knockout results are left as they are, since rescoring one could change a
+// winner the bracket has already moved on with. Cancelled and postponed
+// matches do not count
+export async function recomputeStandings(competitionId: string): Promise<Standing[]> {
+  const competition = await storage.getCompetition(competitionId);
+  if (!competition) throw new Error("Competition not found");
+
+  const totals = new Map<string, StandingTotals>();
+  for (const registration of await storage.getRegisteredTeams(competitionId)) {
+    totals.set(registration.teamId, emptyTotals());
+  }
+
+  const decided = (await storage.getMatchesByCompetition(competitionId))
+    .filter(m => m.status === "completed" || m.status === "forfeited");
+  for (const decidedMatch of decided) {
+    // Scores are re-derived from the answers so rule changes are reflected,
+    // except for forfeits which were never played
+    const frozen = decidedMatch.forfeitedBy || await storage.getBracketSlotByMatch(decidedMatch.id);
+    const match = frozen ? decidedMatch : await rescoreMatch(decidedMatch);
+    const home = totals.get(match.homeTeamId) || emptyTotals();
+    const away = totals.get(match.awayTeamId) || emptyTotals();
+    totals.set(match.homeTeamId, tallyResult(home, match.homeScore, match.awayScore, competition));
+    totals.set(match.awayTeamId, tallyResult(away, match.awayScore, match.homeScore, competition));
+  }
+
+  for (const [teamId, teamTotals] of Array.from(totals.entries())) {
+    const standing = await getOrCreateStanding(competitionId, teamId);
+    await storage.updateStanding(standing.id, teamTotals);
+  }
+
+  return storage.getStandingsByCompetition(competitionId);
+}
@@ -1,19 +1,39 @@
 import { 
   users, teams, teamMembers, competitions, competitionRegistrations, 
-  matches, matchQuestions, questions, playerAnswers, standings, 
+  matches, matchQuestions, bracketSlots, liveMatchStates, matchPresence, answerProposals, questions, questionRevisions, playerAnswers, standings, 
+  scoreAdjustments, matchAuditLog, notifications, 
   tokenTransactions, payments, practiceSessions, teamInvitations,
   type User, type InsertUser, type Team, type InsertTeam, 
   type TeamMember, type InsertTeamMember, type Competition, type InsertCompetition,
   type CompetitionRegistration, type InsertCompetitionRegistration,
-  type Match, type InsertMatch, type Question, type InsertQuestion,
+  type Match, type InsertMatch, type MatchQuestion, type InsertMatchQuestion,
+  type BracketSlot, type InsertBracketSlot,
+  type LiveMatchStateRecord, type InsertLiveMatchState, type MatchPresence, type InsertMatchPresence,
+  type AnswerProposal, type InsertAnswerProposal,
+  type ScoreAdjustment, type InsertScoreAdjustment, type MatchAuditEntry, type InsertMatchAuditEntry,
+  type Notification, type InsertNotification,
+  type Question, type InsertQuestion, type QuestionFilters, type QuestionSearch, type QuestionPage,
+  type QuestionRevision, type QuestionRevisionContent, toRevisionContent,
   type PlayerAnswer, type InsertPlayerAnswer, type Standing, type InsertStanding,
   type TokenTransaction, type InsertTokenTransaction, type Payment, type InsertPayment,
   type PracticeSession, type InsertPracticeSession, type TeamInvitation, type InsertTeamInvitation
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, sql, desc, inArray } from "drizzle-orm";
+import { eq, and, or, sql, desc, inArray, isNotNull, isNull, lt, lte, gt } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
 import { LocalStorageAdapter } from "./local-storage";
 
+// Case-insensitive substring match that takes % and _ in the term literally
+function containsText(column: PgColumn, term: string) {
+  const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+  return sql`${column} ILIKE ${pattern} ESCAPE '\\'`;
+}
+
+// Postgres' unique_violation; the local adapter raises it too for the constraints it mirrors
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === "23505";
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -55,20 +75,83 @@ export interface IStorage {
   getUpcomingMatchesForTeam(teamId: string): Promise<Match[]>;
   createMatch(match: InsertMatch): Promise<Match>;
   updateMatch(id: string, data: Partial<Match>): Promise<Match | undefined>;
+  transitionMatch(id: string, from: Match["status"] | Match["status"][], data: Partial<Match>): Promise<Match | undefined>;
+  getWaitingMatchesScheduledBefore(before: Date): Promise<Match[]>;
   getMatchWithTeams(id: string): Promise<(Match & { homeTeam: Team; awayTeam: Team }) | undefined>;
 
+  // Match Questions
+  getMatchQuestions(matchId: string): Promise<Question[]>;
+  createMatchQuestions(rows: InsertMatchQuestion[]): Promise<MatchQuestion[]>;
+  pinMatchQuestionRevision(matchId: string, questionId: string, revision: number): Promise<void>;
+  replaceMatchQuestion(matchId: string, questionId: string, replacement: Question): Promise<void>;
+  voidMatchQuestion(matchId: string, questionId: string): Promise<boolean>;
+  getVoidedQuestionIds(matchId: string): Promise<string[]>;
+
+  // Bracket Slots
+  getBracketSlots(competitionId: string): Promise<BracketSlot[]>;
+  getBracketSlot(id: string): Promise<BracketSlot | undefined>;
+  getBracketSlotByMatch(matchId: string): Promise<BracketSlot | undefined>;
+  createBracketSlot(slot: InsertBracketSlot): Promise<BracketSlot>;
+  updateBracketSlot(id: string, data: Partial<BracketSlot>): Promise<BracketSlot | undefined>;
+
+  // Live Match States
+  getLiveMatchState(matchId: string): Promise<LiveMatchStateRecord | undefined>;
+  saveLiveMatchState(record: InsertLiveMatchState): Promise<LiveMatchStateRecord>;
+  deleteLiveMatchState(matchId: string): Promise<void>;
+  touchLiveMatchStates(ownerId: string): Promise<void>;
+  getStaleLiveMatchStates(staleBefore: Date): Promise<LiveMatchStateRecord[]>;
+  claimLiveMatchState(matchId: string, ownerId: string, staleBefore: Date): Promise<LiveMatchStateRecord | undefined>;
+
+  // Match Presence
+  saveMatchPresence(presence: InsertMatchPresence): Promise<void>;
+  deleteMatchPresence(matchId: string, userId: string): Promise<void>;
+  touchMatchPresence(instanceId: string): Promise<void>;
+  setMatchPresenceReady(matchId: string, userId: string, isReady: boolean): Promise<MatchPresence | undefined>;
+  getMatchPresence(matchId: string, seenAfter: Date): Promise<MatchPresence[]>;
+
+  // Answer Proposals
+  saveAnswerProposal(proposal: InsertAnswerProposal): Promise<void>;
+  getAnswerProposals(matchId: string, questionId: string, teamId: string): Promise<AnswerProposal[]>;
+  deleteAnswerProposals(matchId: string): Promise<void>;
+
   // Questions
   getQuestion(id: string): Promise<Question | undefined>;
   getQuestionsByMode(mode: "competition" | "practice", limit?: number): Promise<Question[]>;
   getQuestionsByCompetition(competitionId: string): Promise<Question[]>;
-  createQuestion(question: InsertQuestion): Promise<Question>;
+  createQuestion(question: InsertQuestion, editedBy?: string | null): Promise<Question>;
+  createQuestions(rows: InsertQuestion[], editedBy?: string | null): Promise<Question[]>;
+  updateQuestion(id: string, data: Partial<Question>): Promise<Question | undefined>;
+  reviseQuestion(id: string, data: Partial<QuestionRevisionContent>, editedBy: string): Promise<Question | undefined>;
+  getQuestionRevisions(questionId: string): Promise<QuestionRevision[]>;
+  deleteQuestion(id: string): Promise<void>;
+  isQuestionInUse(id: string): Promise<boolean>;
   getAllQuestions(): Promise<Question[]>;
+  searchQuestions(filters: QuestionSearch): Promise<QuestionPage>;
+  findQuestions(filters: QuestionFilters): Promise<Question[]>;
+  getQuestionSubjects(): Promise<string[]>;
+  getQuestionTexts(): Promise<string[]>;
 
   // Player Answers
-  submitAnswer(answer: InsertPlayerAnswer): Promise<PlayerAnswer>;
+  submitAnswer(answer: InsertPlayerAnswer): Promise<PlayerAnswer | undefined>;
+  updatePlayerAnswer(id: string, data: Partial<PlayerAnswer>): Promise<PlayerAnswer | undefined>;
   getAnswersByMatch(matchId: string): Promise<PlayerAnswer[]>;
+  getAnswersByQuestion(questionId: string): Promise<PlayerAnswer[]>;
   getPlayerScoresByMatch(matchId: string): Promise<Record<string, number>>;
 
+  // Score Adjustments
+  createScoreAdjustment(adjustment: InsertScoreAdjustment): Promise<ScoreAdjustment>;
+  getScoreAdjustments(matchId: string): Promise<ScoreAdjustment[]>;
+
+  // Match Audit Log
+  createMatchAuditEntry(entry: InsertMatchAuditEntry): Promise<MatchAuditEntry>;
+  getMatchAuditLog(matchId: string): Promise<MatchAuditEntry[]>;
+
+  // Notifications
+  createNotifications(rows: InsertNotification[]): Promise<Notification[]>;
+  getNotificationsByUser(userId: string, limit?: number): Promise<Notification[]>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+
   // Standings
   getStandingsByCompetition(competitionId: string): Promise<Standing[]>;
   updateStanding(id: string, data: Partial<Standing>): Promise<Standing | undefined>;
@@ -281,7 +364,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           or(eq(matches.homeTeamId, teamId), eq(matches.awayTeamId, teamId)),
-          eq(matches.status, "waiting")
+          inArray(matches.status, ["waiting", "postponed"])
         )
       )
       .orderBy(matches.scheduledAt);
@@ -299,6 +382,23 @@ export class DatabaseStorage implements IStorage {
     return match || undefined;
   }
 
+  // Only applies the update if the match is still in the expected status
+  async transitionMatch(id: string, from: Match["status"] | Match["status"][], data: Partial<Match>): Promise<Match | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const statuses = Array.isArray(from) ? from : [from];
+    const [match] = await db!.update(matches).set(data)
+      .where(and(eq(matches.id, id), inArray(matches.status, statuses)))
+      .returning();
+    return match || undefined;
+  }
+
+  async getWaitingMatchesScheduledBefore(before: Date): Promise<Match[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(matches)
+      .where(and(eq(matches.status, "waiting"), lte(matches.scheduledAt, before)))
+      .orderBy(matches.scheduledAt);
+  }
+
   async getMatchWithTeams(id: string): Promise<(Match & { homeTeam: Team; awayTeam: Team }) | undefined> {
     if (!db) throw new Error("Database not initialized");
     const [match] = await db!.select().from(matches).where(eq(matches.id, id));
@@ -312,6 +412,194 @@ export class DatabaseStorage implements IStorage {
     return { ...match, homeTeam, awayTeam };
   }
 
+  // Match Questions
+  // Each question is returned as it was when drawn for the match, even if it has been edited since
+  async getMatchQuestions(matchId: string): Promise<Question[]> {
+    if (!db) throw new Error("Database not initialized");
+    const rows = await db!
+      .select({ question: questions, revision: questionRevisions })
+      .from(matchQuestions)
+      .innerJoin(questions, eq(matchQuestions.questionId, questions.id))
+      .leftJoin(questionRevisions, and(
+        eq(questionRevisions.questionId, matchQuestions.questionId),
+        eq(questionRevisions.revision, matchQuestions.questionRevision)
+      ))
+      .where(eq(matchQuestions.matchId, matchId))
+      .orderBy(matchQuestions.questionOrder);
+    return rows.map(r => r.revision
+      ? { ...r.question, ...r.revision.content, revision: r.revision.revision }
+      : r.question);
+  }
+
+  async createMatchQuestions(rows: InsertMatchQuestion[]): Promise<MatchQuestion[]> {
+    if (!db) throw new Error("Database not initialized");
+    if (rows.length === 0) return [];
+    return db!.insert(matchQuestions).values(rows).returning();
+  }
+
+  async pinMatchQuestionRevision(matchId: string, questionId: string, revision: number): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.update(matchQuestions).set({ questionRevision: revision })
+      .where(and(eq(matchQuestions.matchId, matchId), eq(matchQuestions.questionId, questionId)));
+  }
+
+  async replaceMatchQuestion(matchId: string, questionId: string, replacement: Question): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.update(matchQuestions).set({ questionId: replacement.id, questionRevision: replacement.revision })
+      .where(and(eq(matchQuestions.matchId, matchId), eq(matchQuestions.questionId, questionId)));
+  }
+
+  async voidMatchQuestion(matchId: string, questionId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not initialized");
+    const updated = await db!.update(matchQuestions).set({ voided: true })
+      .where(and(eq(matchQuestions.matchId, matchId), eq(matchQuestions.questionId, questionId)))
+      .returning();
+    return updated.length > 0;
+  }
+
+  async getVoidedQuestionIds(matchId: string): Promise<string[]> {
+    if (!db) throw new Error("Database not initialized");
+    const rows = await db!.select({ questionId: matchQuestions.questionId }).from(matchQuestions)
+      .where(and(eq(matchQuestions.matchId, matchId), eq(matchQuestions.voided, true)));
+    return rows.map(r => r.questionId);
+  }
+
+  // Bracket Slots
+  async getBracketSlots(competitionId: string): Promise<BracketSlot[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(bracketSlots)
+      .where(eq(bracketSlots.competitionId, competitionId))
+      .orderBy(bracketSlots.round, bracketSlots.position);
+  }
+
+  async getBracketSlot(id: string): Promise<BracketSlot | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [slot] = await db!.select().from(bracketSlots).where(eq(bracketSlots.id, id));
+    return slot || undefined;
+  }
+
+  async getBracketSlotByMatch(matchId: string): Promise<BracketSlot | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [slot] = await db!.select().from(bracketSlots).where(eq(bracketSlots.matchId, matchId));
+    return slot || undefined;
+  }
+
+  async createBracketSlot(slot: InsertBracketSlot): Promise<BracketSlot> {
+    if (!db) throw new Error("Database not initialized");
+    const [newSlot] = await db!.insert(bracketSlots).values(slot).returning();
+    return newSlot;
+  }
+
+  async updateBracketSlot(id: string, data: Partial<BracketSlot>): Promise<BracketSlot | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [slot] = await db!.update(bracketSlots).set(data).where(eq(bracketSlots.id, id)).returning();
+    return slot || undefined;
+  }
+
+  // Live Match States
+  async getLiveMatchState(matchId: string): Promise<LiveMatchStateRecord | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [record] = await db!.select().from(liveMatchStates).where(eq(liveMatchStates.matchId, matchId));
+    return record || undefined;
+  }
+
+  async saveLiveMatchState(record: InsertLiveMatchState): Promise<LiveMatchStateRecord> {
+    if (!db) throw new Error("Database not initialized");
+    const [saved] = await db!.insert(liveMatchStates).values(record)
+      .onConflictDoUpdate({
+        target: liveMatchStates.matchId,
+        set: { ownerId: record.ownerId, state: record.state, heartbeatAt: record.heartbeatAt ?? new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteLiveMatchState(matchId: string): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.delete(liveMatchStates).where(eq(liveMatchStates.matchId, matchId));
+  }
+
+  async touchLiveMatchStates(ownerId: string): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.update(liveMatchStates).set({ heartbeatAt: new Date() }).where(eq(liveMatchStates.ownerId, ownerId));
+  }
+
+  async getStaleLiveMatchStates(staleBefore: Date): Promise<LiveMatchStateRecord[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(liveMatchStates).where(lt(liveMatchStates.heartbeatAt, staleBefore));
+  }
+
+  // Conditional update so only one instance wins the takeover
+  async claimLiveMatchState(matchId: string, ownerId: string, staleBefore: Date): Promise<LiveMatchStateRecord | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [claimed] = await db!.update(liveMatchStates)
+      .set({ ownerId, heartbeatAt: new Date() })
+      .where(and(eq(liveMatchStates.matchId, matchId), lt(liveMatchStates.heartbeatAt, staleBefore)))
+      .returning();
+    return claimed || undefined;
+  }
+
+  // Match Presence
+  async saveMatchPresence(presence: InsertMatchPresence): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.insert(matchPresence).values(presence)
+      .onConflictDoUpdate({
+        target: [matchPresence.matchId, matchPresence.userId],
+        // A reconnecting player keeps their ready state
+        set: { teamId: presence.teamId, instanceId: presence.instanceId, lastSeenAt: new Date() },
+      });
+  }
+
+  async deleteMatchPresence(matchId: string, userId: string): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.delete(matchPresence)
+      .where(and(eq(matchPresence.matchId, matchId), eq(matchPresence.userId, userId)));
+  }
+
+  async touchMatchPresence(instanceId: string): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.update(matchPresence).set({ lastSeenAt: new Date() }).where(eq(matchPresence.instanceId, instanceId));
+  }
+
+  async setMatchPresenceReady(matchId: string, userId: string, isReady: boolean): Promise<MatchPresence | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [presence] = await db!.update(matchPresence).set({ isReady, lastSeenAt: new Date() })
+      .where(and(eq(matchPresence.matchId, matchId), eq(matchPresence.userId, userId)))
+      .returning();
+    return presence || undefined;
+  }
+
+  async getMatchPresence(matchId: string, seenAfter: Date): Promise<MatchPresence[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(matchPresence)
+      .where(and(eq(matchPresence.matchId, matchId), gt(matchPresence.lastSeenAt, seenAfter)));
+  }
+
+  // Answer Proposals
+  async saveAnswerProposal(proposal: InsertAnswerProposal): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.insert(answerProposals).values(proposal)
+      .onConflictDoUpdate({
+        target: [answerProposals.matchId, answerProposals.questionId, answerProposals.userId],
+        set: { answer: proposal.answer, updatedAt: new Date() },
+      });
+  }
+
+  async getAnswerProposals(matchId: string, questionId: string, teamId: string): Promise<AnswerProposal[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(answerProposals)
+      .where(and(
+        eq(answerProposals.matchId, matchId),
+        eq(answerProposals.questionId, questionId),
+        eq(answerProposals.teamId, teamId)
+      ));
+  }
+
+  async deleteAnswerProposals(matchId: string): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.delete(answerProposals).where(eq(answerProposals.matchId, matchId));
+  }
+
   // Questions
   async getQuestion(id: string): Promise<Question | undefined> {
     if (!db) throw new Error("Database not initialized");
@@ -322,52 +610,254 @@ export class DatabaseStorage implements IStorage {
   async getQuestionsByMode(mode: "competition" | "practice", limit = 20): Promise<Question[]> {
     if (!db) throw new Error("Database not initialized");
     return db!.select().from(questions)
-      .where(eq(questions.mode, mode))
+      .where(and(eq(questions.mode, mode), isNull(questions.archivedAt)))
       .orderBy(sql`RANDOM()`)
       .limit(limit);
   }
 
   async getQuestionsByCompetition(competitionId: string): Promise<Question[]> {
     if (!db) throw new Error("Database not initialized");
-    return db!.select().from(questions).where(eq(questions.competitionId, competitionId));
+    return db!.select().from(questions)
+      .where(and(eq(questions.competitionId, competitionId), isNull(questions.archivedAt)));
+  }
+
+  async createQuestion(question: InsertQuestion, editedBy: string | null = null): Promise<Question> {
+    if (!db) throw new Error("Database not initialized");
+    const [created] = await this.createQuestions([question], editedBy);
+    return created;
+  }
+
+  // Every new question starts with its first revision
+  async createQuestions(rows: InsertQuestion[], editedBy: string | null = null): Promise<Question[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.transaction(async (tx) => {
+      const created: Question[] = [];
+      // Batched to stay well under Postgres' bind parameter limit
+      for (let i = 0; i < rows.length; i += 500) {
+        const batch = await tx.insert(questions).values(rows.slice(i, i + 500)).returning();
+        await tx.insert(questionRevisions).values(batch.map(question => ({
+          questionId: question.id,
+          revision: question.revision,
+          content: toRevisionContent(question),
+          editedBy,
+        })));
+        created.push(...batch);
+      }
+      return created;
+    });
+  }
+
+  async updateQuestion(id: string, data: Partial<Question>): Promise<Question | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [question] = await db!.update(questions).set(data).where(eq(questions.id, id)).returning();
+    return question || undefined;
+  }
+
+  // Applies an edit as a new revision. The row is locked so concurrent edits
+  // cannot claim the same revision number
+  async reviseQuestion(id: string, data: Partial<QuestionRevisionContent>, editedBy: string): Promise<Question | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.transaction(async (tx) => {
+      const [current] = await tx.select().from(questions).where(eq(questions.id, id)).for("update");
+      if (!current) return undefined;
+
+      // Questions created before versioning get their original content recorded first
+      await tx.insert(questionRevisions).values({
+        questionId: id,
+        revision: current.revision,
+        content: toRevisionContent(current),
+        createdAt: current.createdAt,
+      }).onConflictDoNothing();
+
+      const [updated] = await tx.update(questions)
+        .set({ ...data, revision: current.revision + 1 })
+        .where(eq(questions.id, id))
+        .returning();
+      await tx.insert(questionRevisions).values({
+        questionId: id,
+        revision: updated.revision,
+        content: toRevisionContent(updated),
+        editedBy,
+      });
+      return updated;
+    });
+  }
+
+  async getQuestionRevisions(questionId: string): Promise<QuestionRevision[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(questionRevisions)
+      .where(eq(questionRevisions.questionId, questionId))
+      .orderBy(questionRevisions.revision);
+  }
+
+  async deleteQuestion(id: string): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.delete(questions).where(eq(questions.id, id));
   }
 
-  async createQuestion(question: InsertQuestion): Promise<Question> {
+  // Questions that have been asked in a match or answered must be archived, not deleted
+  async isQuestionInUse(id: string): Promise<boolean> {
     if (!db) throw new Error("Database not initialized");
-    const [newQuestion] = await db!.insert(questions).values(question).returning();
-    return newQuestion;
+    const [asked] = await db!.select({ id: matchQuestions.id }).from(matchQuestions)
+      .where(eq(matchQuestions.questionId, id)).limit(1);
+    if (asked) return true;
+    const [answered] = await db!.select({ id: playerAnswers.id }).from(playerAnswers)
+      .where(eq(playerAnswers.questionId, id)).limit(1);
+    return !!answered;
   }
 
+  // Active questions only; archived ones are reached through searchQuestions
   async getAllQuestions(): Promise<Question[]> {
     if (!db) throw new Error("Database not initialized");
-    return db!.select().from(questions).orderBy(desc(questions.createdAt));
+    return db!.select().from(questions)
+      .where(isNull(questions.archivedAt))
+      .orderBy(desc(questions.createdAt));
+  }
+
+  private questionConditions(filters: QuestionFilters) {
+    const conditions = [];
+    if (filters.search) {
+      conditions.push(or(containsText(questions.questionText, filters.search), containsText(questions.subject, filters.search)));
+    }
+    if (filters.subject) conditions.push(eq(questions.subject, filters.subject));
+    if (filters.difficulty) conditions.push(eq(questions.difficulty, filters.difficulty));
+    if (filters.mode) conditions.push(eq(questions.mode, filters.mode));
+    if (filters.competitionId === "shared") {
+      conditions.push(isNull(questions.competitionId));
+    } else if (filters.competitionId) {
+      conditions.push(eq(questions.competitionId, filters.competitionId));
+    }
+    if (filters.status === "active") conditions.push(isNull(questions.archivedAt));
+    if (filters.status === "archived") conditions.push(isNotNull(questions.archivedAt));
+    return and(...conditions);
+  }
+
+  async searchQuestions(filters: QuestionSearch): Promise<QuestionPage> {
+    if (!db) throw new Error("Database not initialized");
+    const where = this.questionConditions(filters);
+
+    const [{ count }] = await db!.select({ count: sql<number>`count(*)` }).from(questions).where(where);
+    const page = await db!.select().from(questions)
+      .where(where)
+      .orderBy(desc(questions.createdAt))
+      .limit(filters.pageSize)
+      .offset((filters.page - 1) * filters.pageSize);
+
+    return { questions: page, total: Number(count) || 0, page: filters.page, pageSize: filters.pageSize };
+  }
+
+  async findQuestions(filters: QuestionFilters): Promise<Question[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(questions)
+      .where(this.questionConditions(filters))
+      .orderBy(desc(questions.createdAt));
+  }
+
+  async getQuestionSubjects(): Promise<string[]> {
+    if (!db) throw new Error("Database not initialized");
+    const rows = await db!.selectDistinct({ subject: questions.subject }).from(questions).orderBy(questions.subject);
+    return rows.map(r => r.subject);
+  }
+
+  // Every question's text, archived ones included, for duplicate checks
+  async getQuestionTexts(): Promise<string[]> {
+    if (!db) throw new Error("Database not initialized");
+    const rows = await db!.select({ questionText: questions.questionText }).from(questions);
+    return rows.map(r => r.questionText);
   }
 
   // Player Answers
-  async submitAnswer(answer: InsertPlayerAnswer): Promise<PlayerAnswer> {
+  async submitAnswer(answer: InsertPlayerAnswer): Promise<PlayerAnswer | undefined> {
     if (!db) throw new Error("Database not initialized");
-    const [newAnswer] = await db!.insert(playerAnswers).values(answer).returning();
+    const [newAnswer] = await db!.insert(playerAnswers).values(answer).onConflictDoNothing().returning();
     return newAnswer;
   }
 
+  async updatePlayerAnswer(id: string, data: Partial<PlayerAnswer>): Promise<PlayerAnswer | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [updated] = await db!.update(playerAnswers).set(data).where(eq(playerAnswers.id, id)).returning();
+    return updated;
+  }
+
   async getAnswersByMatch(matchId: string): Promise<PlayerAnswer[]> {
     if (!db) throw new Error("Database not initialized");
     return db!.select().from(playerAnswers).where(eq(playerAnswers.matchId, matchId));
   }
 
+  async getAnswersByQuestion(questionId: string): Promise<PlayerAnswer[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(playerAnswers).where(eq(playerAnswers.questionId, questionId));
+  }
+
   async getPlayerScoresByMatch(matchId: string): Promise<Record<string, number>> {
     if (!db) throw new Error("Database not initialized");
     const answers = await this.getAnswersByMatch(matchId);
     const scores: Record<string, number> = {};
     
     for (const answer of answers) {
-      if (!scores[answer.userId]) scores[answer.userId] = 0;
-      if (answer.isCorrect) scores[answer.userId]++;
+      scores[answer.userId] = (scores[answer.userId] || 0) + answer.points;
     }
     
     return scores;
   }
 
+  // Score Adjustments
+  async createScoreAdjustment(adjustment: InsertScoreAdjustment): Promise<ScoreAdjustment> {
+    if (!db) throw new Error("Database not initialized");
+    const [created] = await db!.insert(scoreAdjustments).values(adjustment).returning();
+    return created;
+  }
+
+  async getScoreAdjustments(matchId: string): Promise<ScoreAdjustment[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(scoreAdjustments)
+      .where(eq(scoreAdjustments.matchId, matchId))
+      .orderBy(scoreAdjustments.createdAt);
+  }
+
+  // Match Audit Log
+  async createMatchAuditEntry(entry: InsertMatchAuditEntry): Promise<MatchAuditEntry> {
+    if (!db) throw new Error("Database not initialized");
+    const [created] = await db!.insert(matchAuditLog).values(entry).returning();
+    return created;
+  }
+
+  async getMatchAuditLog(matchId: string): Promise<MatchAuditEntry[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(matchAuditLog)
+      .where(eq(matchAuditLog.matchId, matchId))
+      .orderBy(matchAuditLog.createdAt);
+  }
+
+  // Notifications
+  async createNotifications(rows: InsertNotification[]): Promise<Notification[]> {
+    if (!db) throw new Error("Database not initialized");
+    if (rows.length === 0) return [];
+    return db!.insert(notifications).values(rows).returning();
+  }
+
+  async getNotificationsByUser(userId: string, limit: number = 50): Promise<Notification[]> {
+    if (!db) throw new Error("Database not initialized");
+    return db!.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    if (!db) throw new Error("Database not initialized");
+    const [notification] = await db!.update(notifications).set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    await db!.update(notifications).set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
   // Standings
   async getStandingsByCompetition(competitionId: string): Promise<Standing[]> {
     if (!db) throw new Error("Database not initialized");
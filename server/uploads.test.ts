@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rm } from "fs/promises";
+import path from "path";
+import { UPLOAD_DIR, saveQuestionImage } from "./uploads";
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(16)]);
+
+async function saved(data: Buffer, contentType: string): Promise<string> {
+  const result = await saveQuestionImage(data, contentType);
+  assert.equal(typeof result, "object", String(result));
+  const { url } = result as { url: string };
+  await rm(path.join(UPLOAD_DIR, "questions", path.basename(url)));
+  return url;
+}
+
+test("content types are matched without parameters or case", async () => {
+  assert.match(await saved(PNG, "image/png; charset=binary"), /\.png$/);
+  assert.match(await saved(PNG, "IMAGE/PNG"), /\.png$/);
+});
+
+test("the stored type comes from the file's signature, not the header", async () => {
+  assert.match(await saved(JPEG, "image/png"), /\.jpg$/);
+  assert.equal(await saveQuestionImage(Buffer.from("<svg onload=alert(1)>"), "image/png"), "The file is not a valid image");
+  assert.equal(await saveQuestionImage(PNG, "image/svg+xml"), "Images must be PNG, JPEG, GIF or WebP");
+});
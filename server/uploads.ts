@@ -0,0 +1,54 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { QUESTION_IMAGE_PATH, isAllowedImageSrc } from "@shared/rich-content";
+
+// Uploaded files live on local disk and are served from /uploads
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// No SVG: it can carry scripts. The signature check stops anything else
+// being uploaded under an image content type
+const IMAGE_TYPES: Record<string, { extension: string; matches: (data: Buffer) => boolean }> = {
+  "image/png": {
+    extension: "png",
+    matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  "image/jpeg": {
+    extension: "jpg",
+    matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  },
+  "image/gif": {
+    extension: "gif",
+    matches: data => data.subarray(0, 4).toString("ascii") === "GIF8",
+  },
+  "image/webp": {
+    extension: "webp",
+    matches: data => data.subarray(0, 4).toString("ascii") === "RIFF" && data.subarray(8, 12).toString("ascii") === "WEBP",
+  },
+};
+
+export const QUESTION_IMAGE_TYPES = Object.keys(IMAGE_TYPES);
+
+// Saves an image for use in question content and returns its URL, or why it
+// was refused. The header only has to name an allowed type (parameters and
+// case aside); the file is stored as whatever its signature says it is
+export async function saveQuestionImage(data: Buffer, contentType: string): Promise<{ url: string } | string> {
+  if (!IMAGE_TYPES[contentType.split(";")[0].trim().toLowerCase()]) return "Images must be PNG, JPEG, GIF or WebP";
+  if (data.length === 0) return "The image is empty";
+  if (data.length > MAX_IMAGE_BYTES) return "Images must be 2 MB or smaller";
+  const type = Object.values(IMAGE_TYPES).find(t => t.matches(data));
+  if (!type) return "The file is not a valid image";
+
+  const fileName = `${randomUUID()}.${type.extension}`;
+  const dir = path.join(UPLOAD_DIR, "questions");
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, fileName), data);
+  return { url: `${QUESTION_IMAGE_PATH}${fileName}` };
+}
+
+export function questionImageExists(src: string): boolean {
+  if (!isAllowedImageSrc(src)) return false;
+  return fs.existsSync(path.join(UPLOAD_DIR, "questions", path.basename(src)));
+}
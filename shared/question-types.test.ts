@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Question, StoredQuestionPayload } from "@shared/schema";
+import {
+  answerFormatError, encodeListAnswer, gradeAnswer, numericAnswerError, parseNumericAnswer,
+} from "@shared/question-types";
+
+function question(fields: Partial<Question>): Question {
+  return {
+    id: "q1",
+    competitionId: null,
+    questionText: "Question",
+    type: "multiple_choice",
+    optionA: "Paris",
+    optionB: "Rome",
+    optionC: "Madrid",
+    optionD: "Berlin",
+    correctAnswer: "A",
+    payload: null,
+    explanation: null,
+    references: [],
+    subject: "Geography",
+    difficulty: "medium",
+    mode: "competition",
+    timeLimit: 30,
+    revision: 1,
+    archivedAt: null,
+    createdAt: new Date(),
+    ...fields,
+  };
+}
+
+const withPayload = (payload: StoredQuestionPayload) =>
+  question({ type: payload.type, optionA: null, optionB: null, optionC: null, optionD: null, correctAnswer: null, payload });
+
+test("multiple choice matches the option key", () => {
+  assert.equal(gradeAnswer(question({}), "A"), true);
+  assert.equal(gradeAnswer(question({}), "B"), false);
+  assert.equal(gradeAnswer(question({}), null), false);
+});
+
+test("true or false compares the stored boolean", () => {
+  const q = withPayload({ type: "true_false", answer: false });
+  assert.equal(gradeAnswer(q, "false"), true);
+  assert.equal(gradeAnswer(q, "true"), false);
+});
+
+test("multi select needs exactly the correct options", () => {
+  const q = withPayload({ type: "multi_select", options: ["a", "b", "c"], answers: [0, 2] });
+  assert.equal(gradeAnswer(q, encodeListAnswer([2, 0])), true);
+  assert.equal(gradeAnswer(q, encodeListAnswer([0])), false);
+  assert.equal(gradeAnswer(q, encodeListAnswer([0, 1, 2])), false);
+});
+
+test("numeric answers are graded within the tolerance", () => {
+  const q = withPayload({ type: "numeric", answer: 9.81, tolerance: 0.01 });
+  assert.equal(gradeAnswer(q, "9.8"), true);
+  assert.equal(gradeAnswer(q, "9,82"), true);
+  assert.equal(gradeAnswer(q, "9.7"), false);
+});
+
+test("numeric answers with thousands separators are refused, not misread", () => {
+  const q = withPayload({ type: "numeric", answer: 1, tolerance: 0 });
+  assert.equal(gradeAnswer(q, "1,000"), false);
+  assert.equal(parseNumericAnswer("1,000"), null);
+  assert.match(numericAnswerError("1,000") ?? "", /thousands separators/);
+  assert.equal(parseNumericAnswer("1,5"), 1.5);
+  assert.equal(numericAnswerError("abc"), "Enter a number");
+});
+
+test("answers that are not text are refused before they are parsed", () => {
+  const numeric = withPayload({ type: "numeric", answer: 1, tolerance: 0 });
+  assert.equal(answerFormatError(numeric, 1000), "Answers must be text");
+  assert.equal(answerFormatError(question({}), null), "Answers must be text");
+  assert.equal(answerFormatError(numeric, "1000"), null);
+});
+
+test("short text ignores case and spacing unless case sensitive", () => {
+  const q = withPayload({ type: "short_text", acceptedAnswers: ["Mount Everest", "Everest"], caseSensitive: false });
+  assert.equal(gradeAnswer(q, "  mount   everest "), true);
+  assert.equal(gradeAnswer(q, "K2"), false);
+  assert.equal(gradeAnswer(q, ""), false);
+
+  const strict = withPayload({ type: "short_text", acceptedAnswers: ["NaCl"], caseSensitive: true });
+  assert.equal(gradeAnswer(strict, "nacl"), false);
+});
+
+test("ordering needs every item in the stored order", () => {
+  const q = withPayload({ type: "ordering", items: ["first", "second", "third"] });
+  assert.equal(gradeAnswer(q, encodeListAnswer(["first", "second", "third"])), true);
+  assert.equal(gradeAnswer(q, encodeListAnswer(["second", "first", "third"])), false);
+});
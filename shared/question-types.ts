@@ -0,0 +1,204 @@
+import type { ChoiceOption, Question, QuestionPayload } from "./schema";
+
+export const questionTypes = [
+  "multiple_choice", "true_false", "multi_select", "numeric", "short_text", "ordering",
+] as const;
+
+// Multiple choice questions keep their option columns; this gives every type
+// the same shape to work with
+export function getQuestionPayload(question: Pick<Question, "type" | "optionA" | "optionB" | "optionC" | "optionD" | "correctAnswer" | "payload">): QuestionPayload {
+  if (question.type !== "multiple_choice" && question.payload) return question.payload;
+  return {
+    type: "multiple_choice",
+    options: [
+      { key: "A", text: question.optionA ?? "" },
+      { key: "B", text: question.optionB ?? "" },
+      { key: "C", text: question.optionC ?? "" },
+      { key: "D", text: question.optionD ?? "" },
+    ],
+    answer: question.correctAnswer ?? "",
+  };
+}
+
+// The payload with everything that gives the answer away removed
+export type PublicQuestionPayload =
+  | { type: "multiple_choice"; options: ChoiceOption[] }
+  | { type: "true_false" }
+  | { type: "multi_select"; options: string[] }
+  | { type: "numeric"; unit?: string }
+  | { type: "short_text" }
+  | { type: "ordering"; items: string[] };
+
+// Same question, same order, so every player (and every reconnect) sees one
+// shuffle. Never returns the correct order when there is another one
+function shuffleItems(items: string[], seed: string): string[] {
+  let state = 0;
+  for (const char of seed) state = (state * 31 + char.charCodeAt(0)) >>> 0;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  if (shuffled.every((item, i) => item === items[i]) && new Set(items).size > 1) {
+    shuffled.push(shuffled.shift()!);
+  }
+  return shuffled;
+}
+
+export function toPublicPayload(payload: QuestionPayload, questionId: string): PublicQuestionPayload {
+  switch (payload.type) {
+    case "multiple_choice":
+      return { type: "multiple_choice", options: payload.options };
+    case "multi_select":
+      return { type: "multi_select", options: payload.options };
+    case "numeric":
+      return { type: "numeric", unit: payload.unit };
+    case "ordering":
+      return { type: "ordering", items: shuffleItems(payload.items, questionId) };
+    default:
+      return { type: payload.type };
+  }
+}
+
+// Answers travel and are stored as strings whatever the question type:
+//   multiple_choice  the option letter ("B")
+//   true_false       "true" or "false"
+//   multi_select     JSON array of option indexes ("[0,2]")
+//   numeric          the number as typed ("9.81")
+//   short_text       the text as typed
+//   ordering         JSON array of the items in the player's order
+
+export function encodeListAnswer(values: (number | string)[]): string {
+  return JSON.stringify(values);
+}
+
+function parseList(answer: string): unknown[] | null {
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseIndexAnswer(answer: string | null | undefined): number[] {
+  const list = answer ? parseList(answer) : null;
+  return (list ?? []).filter((i): i is number => Number.isInteger(i));
+}
+
+export function parseOrderAnswer(answer: string | null | undefined): string[] {
+  const list = answer ? parseList(answer) : null;
+  return (list ?? []).filter((item): item is string => typeof item === "string");
+}
+
+// A sign, digits and at most one decimal point or comma
+const NUMERIC_ANSWER = /^[-+]?(\d+([.,]\d+)?|[.,]\d+)$/;
+// "1,000" is a thousand to some players and one to others, so it is refused rather than guessed
+const THOUSANDS_SEPARATED = /^[-+]?\d{1,3}(,\d{3})+$/;
+
+export function numericAnswerError(answer: string): string | null {
+  const text = answer.trim();
+  if (THOUSANDS_SEPARATED.test(text)) return "Leave out thousands separators, e.g. 1000 rather than 1,000";
+  if (!NUMERIC_ANSWER.test(text)) return "Enter a number";
+  return null;
+}
+
+export function parseNumericAnswer(answer: string): number | null {
+  if (numericAnswerError(answer)) return null;
+  // Accept a decimal comma as typed on many keyboards
+  return Number(answer.trim().replace(",", "."));
+}
+
+// Why an answer cannot be graded as given. Takes whatever arrived over the
+// wire, so anything but a string is refused before it is parsed
+export function answerFormatError(question: Pick<Question, "type">, answer: unknown): string | null {
+  if (typeof answer !== "string") return "Answers must be text";
+  return question.type === "numeric" ? numericAnswerError(answer) : null;
+}
+
+function normaliseText(text: string, caseSensitive: boolean): string {
+  const normalised = text.normalize("NFKC").replace(/\s+/g, " ").trim();
+  return caseSensitive ? normalised : normalised.toLowerCase();
+}
+
+function sameValues<T>(a: T[], b: T[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+// The one place a submitted answer is marked, for matches and practice alike
+export function gradeAnswer(question: Question, answer: string | null | undefined): boolean {
+  if (typeof answer !== "string") return false;
+  const payload = getQuestionPayload(question);
+
+  switch (payload.type) {
+    case "multiple_choice":
+      return answer === payload.answer;
+    case "true_false":
+      return answer === String(payload.answer);
+    case "multi_select": {
+      const picked = Array.from(new Set(parseIndexAnswer(answer))).sort((a, b) => a - b);
+      const correct = Array.from(new Set(payload.answers)).sort((a, b) => a - b);
+      return sameValues(picked, correct);
+    }
+    case "numeric": {
+      const value = parseNumericAnswer(answer);
+      // Small epsilon so 0.1 + 0.2 style float noise never costs a point
+      return value !== null && Math.abs(value - payload.answer) <= payload.tolerance + 1e-9;
+    }
+    case "short_text": {
+      const given = normaliseText(answer, payload.caseSensitive);
+      return given !== "" && payload.acceptedAnswers.some(accepted => normaliseText(accepted, payload.caseSensitive) === given);
+    }
+    case "ordering":
+      return sameValues(parseOrderAnswer(answer), payload.items);
+  }
+}
+
+// The correct answer in the same encoding players submit, for the reveal
+export function answerKey(payload: QuestionPayload): string {
+  switch (payload.type) {
+    case "multiple_choice":
+      return payload.answer;
+    case "true_false":
+      return String(payload.answer);
+    case "multi_select":
+      return encodeListAnswer([...payload.answers].sort((a, b) => a - b));
+    case "numeric":
+      return String(payload.answer);
+    case "short_text":
+      return payload.acceptedAnswers[0];
+    case "ordering":
+      return encodeListAnswer(payload.items);
+  }
+}
+
+export function getAnswerKey(question: Question): string {
+  return answerKey(getQuestionPayload(question));
+}
+
+// Human-readable form of an encoded answer for reports and the admin panel
+export function formatAnswer(payload: PublicQuestionPayload, answer: string | null | undefined): string {
+  if (answer === null || answer === undefined || answer === "") return "-";
+
+  switch (payload.type) {
+    case "multiple_choice": {
+      const option = payload.options.find(o => o.key === answer);
+      return option ? `${option.key}. ${option.text}` : answer;
+    }
+    case "true_false":
+      return answer === "true" ? "True" : answer === "false" ? "False" : answer;
+    case "multi_select":
+      return parseIndexAnswer(answer).map(i => payload.options[i] ?? `#${i + 1}`).join(", ") || "-";
+    case "numeric":
+      return payload.unit ? `${answer} ${payload.unit}` : answer;
+    case "short_text":
+      return answer;
+    case "ordering":
+      return parseOrderAnswer(answer).join(" → ") || "-";
+  }
+}
@@ -0,0 +1,149 @@
+// Rich content for question stems, options and explanations. A deliberately
+// small markdown-like format, parsed into a tree and rendered without raw HTML:
+//   $x^2$            inline LaTeX        $$\int f$$     display LaTeX
+//   `code`           inline code         ```lang ... ``` fenced code block
+//   ![alt](/uploads/questions/<file>)    image uploaded through the admin panel
+//   \$               a literal dollar sign
+// Anything else is plain text
+
+export type RichInline =
+  | { type: "text"; text: string }
+  | { type: "code"; code: string }
+  | { type: "math"; tex: string }
+  | { type: "image"; src: string; alt: string };
+
+export type RichBlock =
+  | { type: "paragraph"; lines: RichInline[][] }
+  | { type: "math"; tex: string }
+  | { type: "code"; lang: string; code: string };
+
+// Images may only come from our own upload directory
+export const QUESTION_IMAGE_PATH = "/uploads/questions/";
+const IMAGE_SRC = /^\/uploads\/questions\/[\w-]+\.(png|jpe?g|gif|webp)$/;
+const IMAGE = /^!\[([^\]\n]*)\]\(([^)\s]+)\)/;
+
+export function isAllowedImageSrc(src: string): boolean {
+  return IMAGE_SRC.test(src);
+}
+
+function pushText(inlines: RichInline[], text: string) {
+  const last = inlines[inlines.length - 1];
+  if (last?.type === "text") last.text += text;
+  else inlines.push({ type: "text", text });
+}
+
+export function parseInline(line: string): RichInline[] {
+  const inlines: RichInline[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    const char = line[i];
+
+    if (char === "\\" && line[i + 1] === "$") {
+      pushText(inlines, "$");
+      i += 2;
+      continue;
+    }
+    if (char === "`") {
+      const end = line.indexOf("`", i + 1);
+      if (end > i + 1) {
+        inlines.push({ type: "code", code: line.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (char === "$") {
+      let end = i + 1;
+      while (end < line.length && (line[end] !== "$" || line[end - 1] === "\\")) end++;
+      const tex = line.slice(i + 1, end).trim();
+      if (end < line.length && tex) {
+        inlines.push({ type: "math", tex });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (char === "!") {
+      const image = IMAGE.exec(line.slice(i));
+      if (image && isAllowedImageSrc(image[2])) {
+        inlines.push({ type: "image", alt: image[1], src: image[2] });
+        i += image[0].length;
+        continue;
+      }
+    }
+
+    pushText(inlines, char);
+    i++;
+  }
+  return inlines;
+}
+
+export function parseRichContent(source: string): RichBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: RichBlock[] = [];
+  let paragraph: RichInline[][] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: "paragraph", lines: paragraph });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("```")) {
+      endParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith("```")) code.push(lines[i]);
+      blocks.push({ type: "code", lang: trimmed.slice(3).trim(), code: code.join("\n") });
+      continue;
+    }
+
+    if (trimmed.startsWith("$$")) {
+      endParagraph();
+      // Either $$...$$ on one line or spread over several
+      let tex = trimmed.slice(2);
+      if (tex.endsWith("$$")) {
+        tex = tex.slice(0, -2);
+      } else {
+        const body = [tex];
+        while (++i < lines.length && !lines[i].trim().endsWith("$$")) body.push(lines[i]);
+        if (i < lines.length) body.push(lines[i].trim().slice(0, -2));
+        tex = body.join("\n");
+      }
+      if (tex.trim()) blocks.push({ type: "math", tex: tex.trim() });
+      continue;
+    }
+
+    if (!trimmed) {
+      endParagraph();
+      continue;
+    }
+    paragraph.push(parseInline(line));
+  }
+  endParagraph();
+  return blocks;
+}
+
+// Every LaTeX snippet and image reference in a piece of content, for validation.
+// Image syntax that was left as text points somewhere other than our uploads
+export function collectRichContent(source: string): { math: string[]; images: string[]; rejectedImages: string[] } {
+  const math: string[] = [];
+  const images: string[] = [];
+  const rejectedImages: string[] = [];
+
+  for (const block of parseRichContent(source)) {
+    if (block.type === "math") math.push(block.tex);
+    if (block.type !== "paragraph") continue;
+    for (const inline of block.lines.flat()) {
+      if (inline.type === "math") math.push(inline.tex);
+      if (inline.type === "image") images.push(inline.src);
+      if (inline.type === "text") {
+        const pattern = /!\[[^\]\n]*\]\(([^)\s]+)\)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(inline.text))) rejectedImages.push(match[1]);
+      }
+    }
+  }
+  return { math, images, rejectedImages };
+}
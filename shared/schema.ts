@@ -1,14 +1,97 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, pgEnum, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, pgEnum, decimal, jsonb, unique, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { getQuestionPayload, toPublicPayload, questionTypes, type PublicQuestionPayload } from "./question-types";
 
 // Enums
 export const userRoleEnum = pgEnum("user_role", ["user", "admin"]);
-export const matchStatusEnum = pgEnum("match_status", ["waiting", "live", "completed"]);
+export const matchStatusEnum = pgEnum("match_status", ["waiting", "live", "completed", "postponed", "cancelled", "forfeited"]);
 export const questionModeEnum = pgEnum("question_mode", ["competition", "practice"]);
+export const questionTypeEnum = pgEnum("question_type", questionTypes);
+export const competitionFormatEnum = pgEnum("competition_format", ["round_robin", "double_round_robin", "knockout"]);
+export const answerModeEnum = pgEnum("answer_mode", ["individual", "team"]);
+export const bracketSideEnum = pgEnum("bracket_side", ["home", "away"]);
 export const paymentTypeEnum = pgEnum("payment_type", ["registration", "tokens"]);
 export const paymentStatusEnum = pgEnum("payment_status", ["pending", "completed", "failed"]);
+export const notificationTypeEnum = pgEnum("notification_type", ["match_rescheduled", "match_postponed", "match_cancelled", "match_forfeited"]);
+
+// Per-competition scoring rules, stored as JSON on the competition
+export const scoringRulesSchema = z.object({
+  difficultyPoints: z.record(z.string(), z.number().min(0)),
+  speedBonus: z.object({
+    maxPoints: z.number().min(0),
+    fullBonusSeconds: z.number().min(0),
+    zeroBonusSeconds: z.number().min(0),
+  }),
+  wrongAnswerPenalty: z.number().min(0),
+  captainMultiplier: z.number().min(0),
+});
+
+export type ScoringRules = z.infer<typeof scoringRulesSchema>;
+
+// Equivalent to the original flat +1 per correct answer
+export const defaultScoringRules: ScoringRules = {
+  difficultyPoints: { easy: 1, medium: 1, hard: 1 },
+  speedBonus: { maxPoints: 0, fullBonusSeconds: 5, zeroBonusSeconds: 20 },
+  wrongAnswerPenalty: 0,
+  captainMultiplier: 1,
+};
+
+// Answer details for every question type except multiple choice, which keeps
+// its four option columns. Stored as JSON on the question
+const choiceListSchema = z.array(z.string().trim().min(1, "Options cannot be blank").max(500, "Options must be at most 500 characters"))
+  .min(2, "Add at least two options")
+  .max(8, "Add at most eight options");
+
+export const questionPayloadSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("true_false"), answer: z.boolean() }),
+  z.object({
+    type: z.literal("multi_select"),
+    options: choiceListSchema,
+    // Indexes into options; all of them (and nothing else) must be picked
+    answers: z.array(z.number().int().min(0)).min(1, "Mark at least one correct option"),
+  }),
+  z.object({
+    type: z.literal("numeric"),
+    answer: z.number().finite(),
+    tolerance: z.number().min(0).default(0),
+    unit: z.string().trim().max(20).optional(),
+  }),
+  z.object({
+    type: z.literal("short_text"),
+    acceptedAnswers: z.array(z.string().trim().min(1).max(200)).min(1, "Add at least one accepted answer"),
+    caseSensitive: z.boolean().default(false),
+  }),
+  // Items are stored in the correct order and shuffled for players
+  z.object({ type: z.literal("ordering"), items: choiceListSchema }),
+]).superRefine((payload, ctx) => {
+  if (payload.type === "multi_select" && payload.answers.some(i => i >= payload.options.length)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["answers"], message: "Correct options must be in the option list" });
+  }
+});
+
+export type StoredQuestionPayload = z.infer<typeof questionPayloadSchema>;
+
+export interface ChoiceOption {
+  key: string;
+  text: string;
+}
+
+export type QuestionPayload =
+  | { type: "multiple_choice"; options: ChoiceOption[]; answer: string }
+  | StoredQuestionPayload;
+
+export type QuestionType = typeof questionTypes[number];
+
+// Further reading shown with a question's explanation once it is answered
+export const questionReferenceSchema = z.object({
+  label: z.string().trim().max(100).optional(),
+  url: z.string().trim().url("References must be valid links")
+    .refine(url => /^https?:\/\//i.test(url), "References must be http or https links"),
+});
+
+export type QuestionReference = z.infer<typeof questionReferenceSchema>;
 
 // Users table
 export const users = pgTable("users", {
@@ -51,6 +134,7 @@ export const teamMembers = pgTable("team_members", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   teamId: varchar("team_id").references(() => teams.id).notNull(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  isCaptain: boolean("is_captain").default(false).notNull(),
   joinedAt: timestamp("joined_at").defaultNow().notNull(),
 });
 
@@ -69,6 +153,16 @@ export const competitions = pgTable("competitions", {
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   registrationDeadline: timestamp("registration_deadline").notNull(),
+  format: competitionFormatEnum("format").default("round_robin").notNull(),
+  winPoints: integer("win_points").default(3).notNull(),
+  drawPoints: integer("draw_points").default(1).notNull(),
+  lossPoints: integer("loss_points").default(0).notNull(),
+  // Players per side that must be ready before a match can start without an admin forcing it
+  minReadyPlayers: integer("min_ready_players").default(1).notNull(),
+  // Score awarded to the side that wins by forfeit or walkover; the other side gets nil
+  forfeitWinScore: integer("forfeit_win_score").default(1).notNull(),
+  answerMode: answerModeEnum("answer_mode").default("individual").notNull(),
+  scoringRules: jsonb("scoring_rules").$type<ScoringRules>().default(defaultScoringRules).notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -108,9 +202,15 @@ export const matches = pgTable("matches", {
   status: matchStatusEnum("status").default("waiting").notNull(),
   homeScore: integer("home_score").default(0).notNull(),
   awayScore: integer("away_score").default(0).notNull(),
+  lobbyOpenedAt: timestamp("lobby_opened_at"),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
-});
+  // Set when the match was decided without being played (status "forfeited")
+  forfeitedBy: varchar("forfeited_by").references(() => teams.id),
+}, (table) => [
+  // Stops a repeated fixture generation from drawing the same schedule twice
+  unique("matches_competition_round_teams").on(table.competitionId, table.round, table.homeTeamId, table.awayTeamId),
+]);
 
 export const matchesRelations = relations(matches, ({ one, many }) => ({
   competition: one(competitions, { fields: [matches.competitionId], references: [competitions.id] }),
@@ -126,6 +226,11 @@ export const matchQuestions = pgTable("match_questions", {
   matchId: varchar("match_id").references(() => matches.id).notNull(),
   questionId: varchar("question_id").references(() => questions.id).notNull(),
   questionOrder: integer("question_order").notNull(),
+  isTieBreaker: boolean("is_tie_breaker").default(false).notNull(),
+  // Revision of the question that was asked; null for matches drawn before versioning
+  questionRevision: integer("question_revision"),
+  // Voided questions stay in the running order but score nothing
+  voided: boolean("voided").default(false).notNull(),
 });
 
 export const matchQuestionsRelations = relations(matchQuestions, ({ one }) => ({
@@ -133,20 +238,109 @@ export const matchQuestionsRelations = relations(matchQuestions, ({ one }) => ({
   question: one(questions, { fields: [matchQuestions.questionId], references: [questions.id] }),
 }));
 
+// Bracket Slots (one node of a knockout bracket; winners feed the parent slot)
+export const bracketSlots = pgTable("bracket_slots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  competitionId: varchar("competition_id").references(() => competitions.id).notNull(),
+  round: integer("round").notNull(),
+  position: integer("position").notNull(),
+  matchId: varchar("match_id").references(() => matches.id),
+  homeTeamId: varchar("home_team_id").references(() => teams.id),
+  awayTeamId: varchar("away_team_id").references(() => teams.id),
+  winnerTeamId: varchar("winner_team_id").references(() => teams.id),
+  parentSlotId: varchar("parent_slot_id").references((): AnyPgColumn => bracketSlots.id),
+  parentSide: bracketSideEnum("parent_side"),
+}, (table) => [
+  unique("bracket_slots_competition_round_position").on(table.competitionId, table.round, table.position),
+]);
+
+export const bracketSlotsRelations = relations(bracketSlots, ({ one }) => ({
+  competition: one(competitions, { fields: [bracketSlots.competitionId], references: [competitions.id] }),
+  match: one(matches, { fields: [bracketSlots.matchId], references: [matches.id] }),
+  parent: one(bracketSlots, { fields: [bracketSlots.parentSlotId], references: [bracketSlots.id] }),
+}));
+
+// Engine state of an in-progress match, persisted so any server instance can
+// serve its players or take over its timers if the owning instance goes away
+export interface PersistedMatchState {
+  phase: "waiting" | "question" | "locked" | "reveal" | "completed";
+  currentQuestion: number;
+  questionReleasedAt: number;
+  questionDeadline: number | null;
+  phaseEndsAt: number | null;
+  tieBreaker: boolean;
+  tieBreakersAsked: number;
+  // Set while an admin has the clock paused; the remaining time is restored on resume
+  pausedAt: number | null;
+  pausedRemainingMs: number | null;
+}
+
+export const liveMatchStates = pgTable("live_match_states", {
+  matchId: varchar("match_id").primaryKey().references(() => matches.id),
+  ownerId: text("owner_id").notNull(),
+  state: jsonb("state").$type<PersistedMatchState>().notNull(),
+  heartbeatAt: timestamp("heartbeat_at").defaultNow().notNull(),
+});
+
+// Players currently connected to a match room, on any server instance.
+// Rows are refreshed by the instance holding the socket and ignored once stale
+export const matchPresence = pgTable("match_presence", {
+  matchId: varchar("match_id").references(() => matches.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  teamId: varchar("team_id").references(() => teams.id).notNull(),
+  instanceId: text("instance_id").notNull(),
+  isReady: boolean("is_ready").default(false).notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.matchId, table.userId] }),
+]);
+
+// Team answer mode: members' tentative answers, one row per player and
+// question so proposals made at the same moment never overwrite each other
+export const answerProposals = pgTable("answer_proposals", {
+  matchId: varchar("match_id").references(() => matches.id).notNull(),
+  questionId: varchar("question_id").references(() => questions.id).notNull(),
+  teamId: varchar("team_id").references(() => teams.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  answer: text("answer").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.matchId, table.questionId, table.userId] }),
+]);
+
+// Match messages too large for a NOTIFY payload. The notification carries the
+// row id and every instance reads the message back from here
+export const matchBusMessages = pgTable("match_bus_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  envelope: jsonb("envelope").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Questions table
 export const questions = pgTable("questions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   competitionId: varchar("competition_id").references(() => competitions.id),
   questionText: text("question_text").notNull(),
-  optionA: text("option_a").notNull(),
-  optionB: text("option_b").notNull(),
-  optionC: text("option_c").notNull(),
-  optionD: text("option_d").notNull(),
-  correctAnswer: text("correct_answer").notNull(),
+  type: questionTypeEnum("type").default("multiple_choice").notNull(),
+  // Multiple choice only
+  optionA: text("option_a"),
+  optionB: text("option_b"),
+  optionC: text("option_c"),
+  optionD: text("option_d"),
+  correctAnswer: text("correct_answer"),
+  // Every other type
+  payload: jsonb("payload").$type<StoredQuestionPayload>(),
+  // Shown only after the answer is revealed
+  explanation: text("explanation"),
+  references: jsonb("reference_links").$type<QuestionReference[]>().default([]).notNull(),
   subject: text("subject").notNull(),
   difficulty: text("difficulty").default("medium").notNull(),
   mode: questionModeEnum("mode").notNull(),
   timeLimit: integer("time_limit").default(30).notNull(),
+  // Number of the latest entry in question_revisions
+  revision: integer("revision").default(1).notNull(),
+  // Archived questions are kept for match history but never drawn again
+  archivedAt: timestamp("archived_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -154,6 +348,26 @@ export const questionsRelations = relations(questions, ({ one, many }) => ({
   competition: one(competitions, { fields: [questions.competitionId], references: [competitions.id] }),
   playerAnswers: many(playerAnswers),
   matchQuestions: many(matchQuestions),
+  revisions: many(questionRevisions),
+}));
+
+// Question Revisions: an immutable copy of a question's content each time it
+// is created or edited, so past matches can still be shown and graded as asked
+export const questionRevisions = pgTable("question_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").references(() => questions.id, { onDelete: "cascade" }).notNull(),
+  revision: integer("revision").notNull(),
+  content: jsonb("content").$type<QuestionRevisionContent>().notNull(),
+  // Who created, imported or edited this revision; null for seeded questions
+  editedBy: varchar("edited_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("question_revisions_question_revision").on(table.questionId, table.revision),
+]);
+
+export const questionRevisionsRelations = relations(questionRevisions, ({ one }) => ({
+  question: one(questions, { fields: [questionRevisions.questionId], references: [questions.id] }),
+  editor: one(users, { fields: [questionRevisions.editedBy], references: [users.id] }),
 }));
 
 // Player Answers
@@ -167,7 +381,20 @@ export const playerAnswers = pgTable("player_answers", {
   isCorrect: boolean("is_correct").default(false).notNull(),
   answeredAt: timestamp("answered_at").defaultNow().notNull(),
   timeTaken: integer("time_taken"),
-});
+  points: integer("points").default(0).notNull(),
+  // Revision the answer was graded against; null for answers given before versioning
+  questionRevision: integer("question_revision"),
+  // Set only on team answer mode lock-ins; nulls never clash in the unique constraint below
+  lockedTeamId: varchar("locked_team_id").references(() => teams.id),
+  // Whether the captain multiplier applied when the answer was given, so a later
+  // change of captain leaves past matches alone. Null on answers from before it was kept
+  isCaptain: boolean("is_captain"),
+}, (table) => [
+  // A player gets exactly one answer per question in a match
+  unique("player_answers_match_question_user").on(table.matchId, table.questionId, table.userId),
+  // And in team answer mode so does the whole team
+  unique("player_answers_match_question_team_lock").on(table.matchId, table.questionId, table.lockedTeamId),
+]);
 
 export const playerAnswersRelations = relations(playerAnswers, ({ one }) => ({
   match: one(matches, { fields: [playerAnswers.matchId], references: [matches.id] }),
@@ -176,6 +403,39 @@ export const playerAnswersRelations = relations(playerAnswers, ({ one }) => ({
   team: one(teams, { fields: [playerAnswers.teamId], references: [teams.id] }),
 }));
 
+// Manual points awarded (or deducted) by an admin, on top of the answers
+export const scoreAdjustments = pgTable("score_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id").references(() => matches.id).notNull(),
+  teamId: varchar("team_id").references(() => teams.id).notNull(),
+  points: integer("points").notNull(),
+  reason: text("reason").notNull(),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every admin intervention in a match, in the order it happened
+export const matchAuditLog = pgTable("match_audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id").references(() => matches.id).notNull(),
+  adminId: varchar("admin_id").references(() => users.id).notNull(),
+  action: text("action").notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>().default({}).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// In-app notifications, e.g. telling team members their fixture has moved
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  type: notificationTypeEnum("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  matchId: varchar("match_id").references(() => matches.id),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Standings table
 export const standings = pgTable("standings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -273,12 +533,34 @@ export const teamInvitationsRelations = relations(teamInvitations, ({ one }) =>
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertTeamSchema = createInsertSchema(teams).omit({ id: true, createdAt: true, practiceTokens: true });
 export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({ id: true, joinedAt: true });
-export const insertCompetitionSchema = createInsertSchema(competitions).omit({ id: true, createdAt: true, isActive: true });
+export const insertCompetitionSchema = createInsertSchema(competitions, {
+  scoringRules: scoringRulesSchema.optional(),
+}).omit({ id: true, createdAt: true, isActive: true });
 export const insertCompetitionRegistrationSchema = createInsertSchema(competitionRegistrations).omit({ id: true, registeredAt: true });
-export const insertMatchSchema = createInsertSchema(matches).omit({ id: true, homeScore: true, awayScore: true, startedAt: true, completedAt: true });
-export const insertQuestionSchema = createInsertSchema(questions).omit({ id: true, createdAt: true });
+export const insertMatchSchema = createInsertSchema(matches).omit({ id: true, homeScore: true, awayScore: true, lobbyOpenedAt: true, startedAt: true, completedAt: true, forfeitedBy: true });
+export const insertMatchQuestionSchema = createInsertSchema(matchQuestions).omit({ id: true });
+export const insertBracketSlotSchema = createInsertSchema(bracketSlots).omit({ id: true });
+// Content limits keep every question, and the live match messages carrying it, a sensible size
+const optionColumnSchema = z.string().max(500, "Options must be at most 500 characters").nullish();
+
+export const insertQuestionSchema = createInsertSchema(questions, {
+  questionText: z.string().min(1, "Question text is required").max(4000, "Question text must be at most 4000 characters"),
+  optionA: optionColumnSchema,
+  optionB: optionColumnSchema,
+  optionC: optionColumnSchema,
+  optionD: optionColumnSchema,
+  explanation: z.string().max(4000, "Explanations must be at most 4000 characters").nullish(),
+  payload: questionPayloadSchema.nullish(),
+  references: z.array(questionReferenceSchema).max(5, "Add at most five references").optional(),
+}).omit({ id: true, revision: true, archivedAt: true, createdAt: true });
+export const updateQuestionSchema = insertQuestionSchema.partial();
 export const insertPlayerAnswerSchema = createInsertSchema(playerAnswers).omit({ id: true, answeredAt: true });
 export const insertStandingSchema = createInsertSchema(standings).omit({ id: true });
+export const insertScoreAdjustmentSchema = createInsertSchema(scoreAdjustments).omit({ id: true, createdAt: true });
+export const insertMatchAuditEntrySchema = createInsertSchema(matchAuditLog, {
+  details: z.record(z.unknown()).optional(),
+}).omit({ id: true, createdAt: true });
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, readAt: true, createdAt: true });
 export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true, completedAt: true });
 export const insertTokenTransactionSchema = createInsertSchema(tokenTransactions).omit({ id: true, createdAt: true });
 export const insertPracticeSessionSchema = createInsertSchema(practiceSessions).omit({ id: true, startedAt: true, completedAt: true, score: true, totalQuestions: true });
@@ -299,9 +581,17 @@ export type Match = typeof matches.$inferSelect;
 export type InsertMatch = z.infer<typeof insertMatchSchema>;
 export type Question = typeof questions.$inferSelect;
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
+export type QuestionRevision = typeof questionRevisions.$inferSelect;
+export type UpdateQuestion = z.infer<typeof updateQuestionSchema>;
 export type PlayerAnswer = typeof playerAnswers.$inferSelect;
 export type InsertPlayerAnswer = z.infer<typeof insertPlayerAnswerSchema>;
 export type Standing = typeof standings.$inferSelect;
+export type ScoreAdjustment = typeof scoreAdjustments.$inferSelect;
+export type InsertScoreAdjustment = z.infer<typeof insertScoreAdjustmentSchema>;
+export type MatchAuditEntry = typeof matchAuditLog.$inferSelect;
+export type InsertMatchAuditEntry = z.infer<typeof insertMatchAuditEntrySchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type InsertStanding = z.infer<typeof insertStandingSchema>;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
@@ -312,6 +602,318 @@ export type InsertPracticeSession = z.infer<typeof insertPracticeSessionSchema>;
 export type TeamInvitation = typeof teamInvitations.$inferSelect;
 export type InsertTeamInvitation = z.infer<typeof insertTeamInvitationSchema>;
 export type MatchQuestion = typeof matchQuestions.$inferSelect;
+export type InsertMatchQuestion = z.infer<typeof insertMatchQuestionSchema>;
+export type BracketSlot = typeof bracketSlots.$inferSelect;
+export type InsertBracketSlot = z.infer<typeof insertBracketSlotSchema>;
+export type LiveMatchStateRecord = typeof liveMatchStates.$inferSelect;
+export type InsertLiveMatchState = typeof liveMatchStates.$inferInsert;
+export type MatchPresence = typeof matchPresence.$inferSelect;
+export type InsertMatchPresence = typeof matchPresence.$inferInsert;
+export type AnswerProposal = typeof answerProposals.$inferSelect;
+export type InsertAnswerProposal = typeof answerProposals.$inferInsert;
+
+type QuestionShape = Pick<InsertQuestion, "type" | "optionA" | "optionB" | "optionC" | "optionD" | "correctAnswer" | "payload">;
+
+// Insert and update schemas check fields one at a time; this checks that the
+// answer details fit the question type
+export function questionShapeError(question: QuestionShape): string | null {
+  const type = question.type ?? "multiple_choice";
+  if (type === "multiple_choice") {
+    const options = [question.optionA, question.optionB, question.optionC, question.optionD];
+    if (!options.every(option => option?.trim())) return "Multiple choice questions need four options";
+    if (!["A", "B", "C", "D"].includes(question.correctAnswer ?? "")) return "The correct answer must be A, B, C or D";
+    return null;
+  }
+  if (question.payload?.type !== type) return "The answer details do not match the question type";
+  return null;
+}
+
+// Question as shipped to players - the correct answer stays on the server
+// until it is revealed after lock-out (matches) or after submission (practice)
+// Explanations and references would give the answer away, so they are only
+// sent once the question has been answered
+export type PublicQuestion = Omit<Question, "correctAnswer" | "payload" | "explanation" | "references"> & {
+  payload: PublicQuestionPayload;
+};
+
+export function toPublicQuestion(question: Question): PublicQuestion {
+  const { correctAnswer, payload, explanation, references, ...publicQuestion } = question;
+  return { ...publicQuestion, payload: toPublicPayload(getQuestionPayload(question), question.id) };
+}
+
+// Ready-check state of a waiting match, built from live presence
+export interface LobbyTeam {
+  connected: string[];
+  ready: string[];
+  isReady: boolean;
+}
+
+export interface MatchLobby {
+  matchId: string;
+  minReadyPlayers: number;
+  teams: Record<string, LobbyTeam>;
+}
+
+// Post-match report: every question in play order with each player's answer,
+// per-team accuracy by question and by subject, and the answer timeline
+export interface AnswerAccuracy {
+  answered: number;
+  correct: number;
+  percentage: number;
+}
+
+export interface ReportAnswer {
+  userId: string;
+  teamId: string;
+  answer: string | null;
+  isCorrect: boolean;
+  timeTaken: number | null;
+  points: number;
+}
+
+export interface QuestionBreakdown {
+  index: number;
+  question: PublicQuestion;
+  // The key, explanation and references are withheld from viewers who did not play in the match
+  answerKey: string | null;
+  explanation: string | null;
+  references: QuestionReference[];
+  answers: ReportAnswer[];
+  teams: Record<string, AnswerAccuracy>;
+}
+
+export interface SubjectBreakdown {
+  subject: string;
+  teams: Record<string, AnswerAccuracy>;
+}
+
+// One step of the replay: an accepted answer or an admin score adjustment,
+// each with the running score after it
+export type TimelineEvent =
+  | (ReportAnswer & { kind: "answer"; questionIndex: number; at: string; homeScore: number; awayScore: number })
+  | {
+      kind: "adjustment";
+      teamId: string;
+      points: number;
+      reason: string;
+      at: string;
+      homeScore: number;
+      awayScore: number;
+    };
+
+export interface MatchReport {
+  // False for viewers outside the match, who also do not see what each player answered
+  answersShown: boolean;
+  players: Record<string, { username: string; teamId: string }>;
+  questions: QuestionBreakdown[];
+  subjects: SubjectBreakdown[];
+  timeline: TimelineEvent[];
+}
+
+// Admin commands for a match in progress; void and adjust_score also apply after completion
+export const matchControlSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("pause") }),
+  z.object({ action: z.literal("resume") }),
+  z.object({ action: z.literal("skip") }),
+  z.object({ action: z.literal("extend"), seconds: z.number().int().min(1).max(600) }),
+  z.object({ action: z.literal("void"), questionId: z.string().min(1) }),
+  z.object({
+    action: z.literal("adjust_score"),
+    teamId: z.string().min(1),
+    points: z.number().int().refine(p => p !== 0, "Points must not be zero"),
+    reason: z.string().min(3, "A reason is required"),
+  }),
+  z.object({ action: z.literal("end") }),
+]);
+
+export type MatchControl = z.infer<typeof matchControlSchema>;
+
+// Longest answer a player can send: an ordering of eight 500-character items, JSON encoded
+const MAX_ANSWER_LENGTH = 10000;
+
+const matchAnswerMessage = z.object({
+  matchId: z.string().min(1),
+  questionId: z.string().min(1),
+  answer: z.string().max(MAX_ANSWER_LENGTH, "Answer is too long"),
+});
+
+// Messages a match client sends over the WebSocket
+export const matchSocketMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join_match"), matchId: z.string().min(1) }),
+  z.object({ type: z.literal("set_ready"), matchId: z.string().min(1), ready: z.boolean() }),
+  matchAnswerMessage.extend({ type: z.literal("submit_answer") }),
+  matchAnswerMessage.extend({ type: z.literal("propose_answer") }),
+]);
+
+// Admin changes to a fixture that has not been played
+export const fixtureChangeSchema = z.object({
+  reason: z.string().trim().max(200).optional(),
+});
+
+export const rescheduleMatchSchema = fixtureChangeSchema.extend({
+  scheduledAt: z.coerce.date().refine(d => d.getTime() > Date.now(), "The new kick-off must be in the future"),
+});
+
+export const walkoverSchema = fixtureChangeSchema.extend({
+  winnerTeamId: z.string().min(1, "Choose the team awarded the walkover"),
+});
+
+// Question bank filters; "shared" limits results to questions outside any competition
+export const questionFilterSchema = z.object({
+  search: z.string().trim().optional(),
+  subject: z.string().optional(),
+  difficulty: z.string().optional(),
+  mode: z.enum(questionModeEnum.enumValues).optional(),
+  competitionId: z.string().optional(),
+  status: z.enum(["active", "archived", "all"]).default("active"),
+});
+
+export const questionSearchSchema = questionFilterSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type QuestionFilters = z.infer<typeof questionFilterSchema>;
+export type QuestionSearch = z.infer<typeof questionSearchSchema>;
+
+export const questionFileFormats = ["csv", "json"] as const;
+export type QuestionFileFormat = typeof questionFileFormats[number];
+
+export const questionExportSchema = questionFilterSchema.extend({
+  format: z.enum(questionFileFormats).default("csv"),
+});
+
+export const questionImportSchema = z.object({
+  format: z.enum(questionFileFormats),
+  content: z.string().min(1, "The file is empty"),
+  dryRun: z.boolean().default(true),
+});
+
+export interface QuestionImportResult {
+  dryRun: boolean;
+  total: number;
+  // Rows that were (or, in a dry run, would be) added
+  imported: number;
+  preview: InsertQuestion[];
+  duplicates: { row: number; questionText: string; existing: boolean }[];
+  errors: { row: number; messages: string[] }[];
+}
+
+// Every field an admin can edit; a change to any of them records a new revision
+export const questionRevisionFields = [
+  "questionText",
+  "type",
+  "optionA",
+  "optionB",
+  "optionC",
+  "optionD",
+  "correctAnswer",
+  "payload",
+  "explanation",
+  "references",
+  "subject",
+  "difficulty",
+  "mode",
+  "timeLimit",
+  "competitionId",
+] as const;
+
+export type QuestionRevisionField = typeof questionRevisionFields[number];
+export type QuestionRevisionContent = Pick<Question, QuestionRevisionField>;
+
+export function toRevisionContent(question: QuestionRevisionContent): QuestionRevisionContent {
+  return Object.fromEntries(questionRevisionFields.map(field => [field, question[field]])) as QuestionRevisionContent;
+}
+
+export interface QuestionRevisionChange {
+  field: QuestionRevisionField;
+  // Display text; structured values such as the payload are shown as JSON
+  before: string | null;
+  after: string | null;
+}
+
+export interface QuestionRevisionEntry {
+  revision: number;
+  editedBy: { id: string; username: string } | null;
+  createdAt: string;
+  // Empty for the first revision
+  changes: QuestionRevisionChange[];
+}
+
+export const questionRegradeSchema = z.object({
+  dryRun: z.boolean().default(true),
+});
+
+export interface QuestionRegradeResult {
+  dryRun: boolean;
+  revision: number;
+  // Answers in completed matches checked against the current answer key
+  answers: number;
+  // Answers whose result flips
+  changed: number;
+  matches: number;
+  // Knockout matches with flipped answers whose next round has already started
+  lockedMatches: number;
+}
+
+export const questionAnalyticsFilterSchema = z.object({
+  competitionId: z.string().optional(),
+  subject: z.string().optional(),
+});
+
+export type QuestionAnalyticsFilters = z.infer<typeof questionAnalyticsFilterSchema>;
+
+export const questionQualityFlags = [
+  "difficulty_mismatch",
+  "negative_discrimination",
+  "low_discrimination",
+  "popular_distractor",
+] as const;
+export type QuestionQualityFlag = typeof questionQualityFlags[number];
+
+export type ObservedDifficulty = "easy" | "medium" | "hard";
+
+export interface AnswerOptionStats {
+  label: string;
+  count: number;
+  // Share of the question's answers that picked this option
+  percentage: number;
+  isCorrect: boolean;
+}
+
+// Each revision of a question is analysed on its own, since an edit can change its answer key
+export interface QuestionAnalytics {
+  questionId: string;
+  revision: number;
+  questionText: string;
+  type: QuestionType;
+  subject: string;
+  difficulty: string;
+  answers: number;
+  percentCorrect: number;
+  // Seconds
+  averageTimeTaken: number | null;
+  // Null until the question has enough answers to judge
+  observedDifficulty: ObservedDifficulty | null;
+  // Point-biserial correlation with the players' match totals, from -1 to 1
+  discrimination: number | null;
+  options: AnswerOptionStats[];
+  flags: QuestionQualityFlag[];
+}
+
+export interface QuestionAnalyticsReport {
+  // Answers a question needs before it is judged or flagged
+  minAnswers: number;
+  questions: QuestionAnalytics[];
+  subjects: string[];
+}
+
+export interface QuestionPage {
+  questions: Question[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
 
 // Auth schemas
 export const loginSchema = z.object({